@@ -3,7 +3,18 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { RequireAuth } from "@/components/RequireAuth";
 import Index from "./pages/Index";
+import Login from "./pages/Login";
+import ResetPassword from "./pages/ResetPassword";
+import UpdatePassword from "./pages/UpdatePassword";
+import AcceptInvite from "./pages/AcceptInvite";
+import ClientDetail from "./pages/ClientDetail";
+import ProposalDetail from "./pages/ProposalDetail";
+import Settings from "./pages/Settings";
+import Security from "./pages/Security";
+import Analytics from "./pages/Analytics";
+import AuditLog from "./pages/AuditLog";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -15,7 +26,22 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/login" element={<Login />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/update-password" element={<UpdatePassword />} />
+          <Route path="/accept-invite" element={<AcceptInvite />} />
+          {/* Páginas restritas: sessão e MFA conferidos num lugar só */}
+          <Route element={<RequireAuth />}>
+            <Route path="/" element={<Index />} />
+            <Route path="/clients/:id" element={<ClientDetail />} />
+            <Route path="/proposals/:id" element={<ProposalDetail />} />
+            <Route path="/settings" element={<Settings />} />
+            <Route path="/analytics" element={<Analytics />} />
+            <Route path="/audit" element={<AuditLog />} />
+          </Route>
+          <Route element={<RequireAuth allowMissingFactor />}>
+            <Route path="/security" element={<Security />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
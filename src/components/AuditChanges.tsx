@@ -0,0 +1,33 @@
+import { AuditEntry } from "@/types/audit";
+import { getAuditChanges } from "@/lib/proposal-audit";
+
+interface AuditChangesProps {
+  entry: AuditEntry;
+}
+
+/** Lista "campo: antes → depois" de uma entrada da auditoria. */
+export const AuditChanges = ({ entry }: AuditChangesProps) => {
+  const changes = getAuditChanges(entry);
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">Sem mudanças nos campos exibidos.</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {changes.map((change) => (
+        <li key={change.field}>
+          <span className="text-muted-foreground">{change.label}:</span>{" "}
+          {entry.operation === "UPDATE" ? (
+            <>
+              <span className="line-through text-slate-400">{change.from}</span> →{" "}
+              <span className="font-medium">{change.to}</span>
+            </>
+          ) : (
+            <span className="font-medium">{entry.operation === "DELETE" ? change.from : change.to}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
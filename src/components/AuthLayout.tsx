@@ -0,0 +1,26 @@
+import { ReactNode } from "react";
+import { Lock } from "lucide-react";
+import logo from "@/assets/logo.png";
+
+interface AuthLayoutProps {
+  title: string;
+  description: string;
+  children: ReactNode;
+}
+
+// Moldura comum das telas de login, recuperação de senha e convite
+export const AuthLayout = ({ title, description, children }: AuthLayoutProps) => (
+  <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+    <div className="max-w-md w-full space-y-8 bg-white p-8 rounded-xl shadow-lg border">
+      <div className="text-center flex flex-col items-center">
+        <div className="bg-primary/10 p-3 rounded-full mb-4">
+          <Lock className="h-8 w-8 text-primary" />
+        </div>
+        <img src={logo} alt="Logo" className="h-12 w-auto mb-4" />
+        <h2 className="text-2xl font-bold text-gray-900">{title}</h2>
+        <p className="mt-2 text-sm text-gray-600">{description}</p>
+      </div>
+      {children}
+    </div>
+  </div>
+);
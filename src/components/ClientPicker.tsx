@@ -0,0 +1,125 @@
+import { useState, useEffect } from "react";
+import { Client } from "@/types/client";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { clientKey, findOrCreateClient } from "@/lib/clients";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Check, ChevronsUpDown, Plus } from "lucide-react";
+
+interface ClientPickerProps {
+  value?: string;
+  clientName?: string;
+  onChange: (client: Pick<Client, "id" | "name">) => void;
+}
+
+export const ClientPicker = ({ value, clientName, onChange }: ClientPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [clients, setClients] = useState<Client[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    supabase
+      .from("clients")
+      .select("*")
+      .order("name")
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Erro ao buscar clientes:", error);
+          return;
+        }
+        setClients(
+          data.map((c) => ({
+            id: c.id,
+            name: c.name,
+            cnpj: c.cnpj ?? undefined,
+          }))
+        );
+      });
+  }, [open]);
+
+  const handleCreate = async () => {
+    const name = search.trim();
+    try {
+      const { client, created } = await findOrCreateClient(name);
+      if (created) toast.success(`Cliente "${name}" cadastrado!`);
+      onChange(client);
+      setSearch("");
+      setOpen(false);
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao cadastrar cliente.");
+    }
+  };
+
+  const hasExactMatch = clients.some((c) => clientKey(c.name) === clientKey(search));
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between font-normal", !value && "text-muted-foreground")}
+        >
+          <span className="truncate">{value ? clientName : "Selecione o cliente"}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput
+            placeholder="Buscar por nome ou CNPJ..."
+            value={search}
+            onValueChange={setSearch}
+          />
+          <CommandList>
+            <CommandEmpty>Nenhum cliente encontrado.</CommandEmpty>
+            <CommandGroup>
+              {clients.map((client) => (
+                <CommandItem
+                  key={client.id}
+                  value={`${client.name} ${client.cnpj ?? ""}`}
+                  onSelect={() => {
+                    onChange({ id: client.id, name: client.name });
+                    setOpen(false);
+                  }}
+                >
+                  <Check
+                    className={cn("mr-2 h-4 w-4", value === client.id ? "opacity-100" : "opacity-0")}
+                  />
+                  <span className="flex-1 truncate">{client.name}</span>
+                  {client.cnpj && (
+                    <span className="ml-2 text-xs text-muted-foreground">{client.cnpj}</span>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {/* Cadastro rápido: só o nome; os demais dados ficam na página do cliente */}
+            {search.trim() && !hasExactMatch && (
+              <CommandGroup>
+                <CommandItem value={search} onSelect={handleCreate}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Cadastrar "{search.trim()}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -1,26 +1,95 @@
 import { Card } from "@/components/ui/card";
-import { Proposal } from "@/types/proposal";
-import { FileText, CheckCircle2, XCircle, Clock } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileText, CheckCircle2, XCircle, Clock, X } from "lucide-react";
+import { ProposalChannel, channelLabels, statusLabels } from "@/types/proposal";
+import { ProposalStats } from "@/lib/proposal-stats";
+import { formatCurrency } from "@/lib/format";
+import { followUpBandIcons, formatBandRange } from "@/lib/follow-up-bands";
+import { FollowUpBand } from "@/types/follow-up-band";
+import { LossBreakdownRow, OwnerTotals, SharedFilters, StatusFilter } from "@/lib/proposals-api";
+import { OrganizationMember } from "@/types/organization";
+import { PipelineForecast } from "@/lib/proposal-forecast";
+import { ForecastChart } from "@/components/ForecastChart";
 
 interface DashboardProps {
-  proposals: Proposal[];
+  totals: ProposalStats; // Já filtrados por período e canal
+  filters: SharedFilters;
+  onFiltersChange: (filters: Partial<SharedFilters>) => void;
+  onDrillDown: (status: StatusFilter) => void; // Clique num card: filtra a tabela por aquele status
+  followUpBands?: FollowUpBand[];
+  agingCounts?: number[]; // Propostas aguardando em cada faixa, na mesma ordem
+  losses?: LossBreakdownRow[];
+  forecast?: PipelineForecast;
+  ownerTotals?: OwnerTotals[]; // Mesmos filtros de período e canal dos totais
+  members?: OrganizationMember[]; // Para mostrar o nome de cada vendedor
 }
 
-export const Dashboard = ({ proposals }: DashboardProps) => {
-  const totalProposals = proposals.length;
-  const approvedProposals = proposals.filter((p) => p.status === "approved").length;
-  const rejectedProposals = proposals.filter((p) => p.status === "rejected").length;
-  const pendingProposals = proposals.filter((p) => p.status === "pending").length;
+// Soma valor e quantidade recusados por chave (motivo ou concorrente), do maior valor para o menor
+const groupLosses = (rows: LossBreakdownRow[], key: (row: LossBreakdownRow) => string | undefined) => {
+  const groups = new Map<string, { count: number; totalValue: number }>();
+  rows.forEach((row) => {
+    const name = key(row);
+    if (!name) return;
+    const group = groups.get(name) ?? { count: 0, totalValue: 0 };
+    groups.set(name, { count: group.count + row.count, totalValue: group.totalValue + row.totalValue });
+  });
+  return [...groups.entries()]
+    .map(([name, group]) => ({ name, ...group }))
+    .sort((a, b) => b.totalValue - a.totalValue);
+};
+
+const ALL_CHANNELS = "all"; // O Select não aceita valor vazio
 
-  const totalValue = proposals.reduce((sum, p) => sum + p.value, 0);
-  const approvedValue = proposals
-    .filter((p) => p.status === "approved")
-    .reduce((sum, p) => sum + p.value, 0);
+export const Dashboard = ({
+  totals,
+  filters,
+  onFiltersChange,
+  onDrillDown,
+  followUpBands,
+  agingCounts,
+  losses,
+  forecast,
+  ownerTotals,
+  members,
+}: DashboardProps) => {
+  const {
+    totalProposals,
+    approvedProposals,
+    rejectedProposals,
+    pendingProposals,
+    totalValue,
+    approvedValue,
+  } = totals;
 
-  const stats = [
+  const stats: {
+    title: string;
+    value: number;
+    filter: StatusFilter;
+    icon: typeof FileText;
+    color: string;
+    bgColor: string;
+  }[] = [
     {
       title: "Total de Propostas",
       value: totalProposals,
+      filter: "",
       icon: FileText,
       color: "text-primary",
       bgColor: "bg-primary/10",
@@ -28,6 +97,7 @@ export const Dashboard = ({ proposals }: DashboardProps) => {
     {
       title: "Aprovadas",
       value: approvedProposals,
+      filter: "approved",
       icon: CheckCircle2,
       color: "text-success",
       bgColor: "bg-success/10",
@@ -35,33 +105,110 @@ export const Dashboard = ({ proposals }: DashboardProps) => {
     {
       title: "Recusadas",
       value: rejectedProposals,
+      filter: "rejected",
       icon: XCircle,
       color: "text-destructive",
       bgColor: "bg-destructive/10",
     },
     {
-      title: "Aguardando",
+      title: "Em Aberto",
       value: pendingProposals,
+      filter: "open",
       icon: Clock,
       color: "text-alert-attention",
       bgColor: "bg-alert-attention/10",
     },
   ];
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("pt-BR", {
-      style: "currency",
-      currency: "BRL",
-    }).format(value);
-  };
+  const lossGroups = losses && losses.length > 0 && [
+    { title: "Por motivo", items: groupLosses(losses, (row) => row.reason) },
+    { title: "Por concorrente", items: groupLosses(losses, (row) => row.competitor) },
+  ];
+
+  // Quem saiu da organização continua aparecendo, mas sem nome
+  const ownerName = (ownerId?: string) =>
+    ownerId ? members?.find((m) => m.userId === ownerId)?.name ?? "Ex-membro" : "Sem responsável";
+  const ownerRows = ownerTotals && [...ownerTotals].sort((a, b) => b.totalValue - a.totalValue);
+
+  const hasFilters = !!(filters.dateStart || filters.dateEnd || filters.status || filters.sentVia);
 
   return (
     <div className="space-y-6">
+      {/* FILTROS COMPARTILHADOS COM A TABELA */}
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-muted-foreground">Envio de</span>
+        <Input
+          type="date"
+          value={filters.dateStart}
+          onChange={(e) => onFiltersChange({ dateStart: e.target.value })}
+          className="w-40 bg-white"
+        />
+        <span className="text-sm font-medium text-muted-foreground">até</span>
+        <Input
+          type="date"
+          value={filters.dateEnd}
+          onChange={(e) => onFiltersChange({ dateEnd: e.target.value })}
+          className="w-40 bg-white"
+        />
+        <Select
+          value={filters.sentVia || ALL_CHANNELS}
+          onValueChange={(value) =>
+            onFiltersChange({ sentVia: value === ALL_CHANNELS ? "" : (value as ProposalChannel) })
+          }
+        >
+          <SelectTrigger className="w-44 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_CHANNELS}>Todos os canais</SelectItem>
+            {Object.entries(channelLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {filters.status && (
+          <Badge variant="outline" className="gap-1 border-[#25515c]/40 bg-[#E4F4F0] text-[#25515c]">
+            Tabela: {filters.status === "open" ? "Em aberto" : statusLabels[filters.status]}
+            <button type="button" title="Remover filtro de status" onClick={() => onFiltersChange({ status: "" })}>
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        )}
+        {hasFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-slate-500 text-xs hover:text-red-500"
+            onClick={() => onFiltersChange({ dateStart: "", dateEnd: "", status: "", sentVia: "" })}
+          >
+            Limpar Filtros
+          </Button>
+        )}
+      </div>
+
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         {stats.map((stat) => {
           const Icon = stat.icon;
+          const isActive = !!stat.filter && filters.status === stat.filter;
           return (
-            <Card key={stat.title} className="p-6">
+            <Card
+              key={stat.title}
+              role="button"
+              tabIndex={0}
+              title="Ver na tabela"
+              onClick={() => onDrillDown(stat.filter)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") {
+                  e.preventDefault();
+                  onDrillDown(stat.filter);
+                }
+              }}
+              className={`p-6 cursor-pointer transition-shadow hover:shadow-md ${
+                isActive ? "ring-2 ring-[#25515c]/50" : ""
+              }`}
+            >
               <div className="flex items-center gap-4">
                 <div className={`rounded-lg p-3 ${stat.bgColor}`}>
                   <Icon className={`h-6 w-6 ${stat.color}`} />
@@ -98,6 +245,125 @@ export const Dashboard = ({ proposals }: DashboardProps) => {
           </p>
         </Card>
       </div>
+
+      {forecast && (
+        <Card className="p-6">
+          <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-4">
+            <div>
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                Pipeline Ponderado (valor x probabilidade de ganho)
+              </h3>
+              <p className="text-3xl font-bold text-primary">{formatCurrency(forecast.weightedValue)}</p>
+              <p className="text-xs text-muted-foreground">
+                de {formatCurrency(forecast.openValue)} em propostas em aberto
+              </p>
+            </div>
+            {forecast.undatedWeightedValue > 0 && (
+              <p className="text-xs text-muted-foreground md:text-right">
+                {formatCurrency(forecast.undatedWeightedValue)} sem previsão de retorno
+                <br />
+                ficam fora do gráfico
+              </p>
+            )}
+          </div>
+          <ForecastChart forecast={forecast} />
+        </Card>
+      )}
+
+      {followUpBands && agingCounts && (
+        <Card className="p-6">
+          <h3 className="text-sm font-medium text-muted-foreground mb-4">
+            Em aberto por tempo sem follow-up
+          </h3>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            {followUpBands.map((band, index) => {
+              const Icon = band.icon && followUpBandIcons[band.icon];
+              return (
+                <div
+                  key={band.label}
+                  className="rounded-lg p-4 text-[#25515c]"
+                  style={{ backgroundColor: band.color }}
+                >
+                  <div className="flex items-center gap-1 text-sm font-semibold">
+                    {Icon && <Icon className="h-4 w-4" />}
+                    {band.label}
+                  </div>
+                  <p className="text-xs opacity-80">{formatBandRange(followUpBands, index)}</p>
+                  <p className="mt-2 text-2xl font-bold">{agingCounts[index]}</p>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+
+      {ownerRows && ownerRows.length > 0 && (
+        <Card className="p-6">
+          <h3 className="text-sm font-medium text-muted-foreground mb-4">Por vendedor</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Vendedor</TableHead>
+                <TableHead className="text-right">Propostas</TableHead>
+                <TableHead className="text-right">Valor total</TableHead>
+                <TableHead className="text-right">Valor aprovado</TableHead>
+                <TableHead className="text-right" title="Aprovadas sobre aprovadas + recusadas">
+                  Taxa de ganho
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ownerRows.map((row) => (
+                <TableRow key={row.ownerId ?? "none"}>
+                  <TableCell className="font-medium">{ownerName(row.ownerId)}</TableCell>
+                  <TableCell className="text-right">{row.totalProposals}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.totalValue)}</TableCell>
+                  <TableCell className="text-right text-success">{formatCurrency(row.approvedValue)}</TableCell>
+                  <TableCell className="text-right font-semibold">{Math.round(row.winRate)}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      {lossGroups && (
+        <Card className="p-6">
+          <h3 className="text-sm font-medium text-muted-foreground mb-4">
+            Análise de perdas (valor recusado)
+          </h3>
+          <div className="grid gap-6 md:grid-cols-2">
+            {lossGroups.map((group) => {
+              const max = group.items[0]?.totalValue || 1;
+              return (
+                <div key={group.title} className="space-y-3">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">{group.title}</p>
+                  {group.items.length === 0 ? (
+                    <p className="text-sm text-slate-400">Nenhum concorrente informado.</p>
+                  ) : (
+                    group.items.map((item) => (
+                      <div key={item.name}>
+                        <div className="flex justify-between text-sm">
+                          <span className="font-medium text-foreground">
+                            {item.name} <span className="text-muted-foreground">({item.count})</span>
+                          </span>
+                          <span className="text-destructive font-medium">{formatCurrency(item.totalValue)}</span>
+                        </div>
+                        <div className="mt-1 h-2 rounded-full bg-destructive/10">
+                          <div
+                            className="h-2 rounded-full bg-destructive/70"
+                            style={{ width: `${(item.totalValue / max) * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
     </div>
   );
 };
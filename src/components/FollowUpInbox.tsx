@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlarmClock, CalendarClock, Edit, Inbox, PhoneCall, XCircle } from "lucide-react";
+import { Proposal } from "@/types/proposal";
+import { FollowUpBand } from "@/types/follow-up-band";
+import { formatCurrency, formatDate } from "@/lib/format";
+import { getFollowUpBand, followUpBandIcons } from "@/lib/follow-up-bands";
+import { getInboxAgeLimit, getInboxItems } from "@/lib/follow-up-inbox";
+import { usePermissions } from "@/hooks/use-permissions";
+
+interface FollowUpInboxProps {
+  proposals: Proposal[]; // Candidatas vindas do Supabase (ver fetchInboxProposals)
+  followUpBands: FollowUpBand[];
+  onContacted: (id: string) => void;
+  onSnooze: (id: string, until: Date) => void;
+  onMarkLost: (id: string) => void;
+  onEdit: (proposal: Proposal) => void;
+}
+
+const snoozeShortcuts = [
+  { label: "Amanhã", days: 1 },
+  { label: "Em 3 dias", days: 3 },
+  { label: "Em 1 semana", days: 7 },
+];
+
+const addDays = (days: number) => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+export const FollowUpInbox = ({
+  proposals,
+  followUpBands,
+  onContacted,
+  onSnooze,
+  onMarkLost,
+  onEdit,
+}: FollowUpInboxProps) => {
+  const permissions = usePermissions();
+  const [snoozingId, setSnoozingId] = useState<string | null>(null);
+  const items = getInboxItems(proposals, getInboxAgeLimit(followUpBands));
+
+  const snooze = (id: string, until?: Date) => {
+    if (!until) return;
+    setSnoozingId(null);
+    onSnooze(id, until);
+  };
+
+  if (items.length === 0) {
+    return (
+      <Card className="p-12 flex flex-col items-center gap-2 text-slate-500 border-slate-200 shadow-sm">
+        <Inbox className="h-10 w-10 text-primary" />
+        <p className="font-medium">Nenhum follow-up pendente. Tudo em dia!</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map(({ proposal, reason, daysSinceFollowUp, overdueDays }) => {
+        const band = getFollowUpBand(daysSinceFollowUp, followUpBands);
+        const Icon = band.icon && followUpBandIcons[band.icon];
+
+        return (
+          <Card
+            key={proposal.id}
+            className="p-4 border-slate-200 shadow-sm flex flex-col md:flex-row md:items-center gap-4"
+          >
+            <div
+              className="flex items-center gap-1 self-start rounded-md px-3 py-2 text-xs font-bold uppercase tracking-wide text-[#25515c] md:w-40"
+              style={{ backgroundColor: band.color }}
+            >
+              {Icon && <Icon className="h-4 w-4" />}
+              {daysSinceFollowUp} dias sem contato
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                {proposal.clientId ? (
+                  <Link to={`/clients/${proposal.clientId}`} className="font-semibold truncate hover:underline">
+                    {proposal.clientName}
+                  </Link>
+                ) : (
+                  <span className="font-semibold truncate">{proposal.clientName}</span>
+                )}
+                <span className="text-sm text-muted-foreground">{formatCurrency(proposal.value)}</span>
+              </div>
+              <p className="text-sm text-red-600">
+                {reason === "return_date"
+                  ? `Retorno previsto para ${formatDate(proposal.expectedReturnDate)} (há ${overdueDays} dias)`
+                  : `${overdueDays} dias além do prazo de follow-up`}
+              </p>
+              <p className="text-xs text-muted-foreground">Último contato: {formatDate(proposal.lastFollowUp)}</p>
+            </div>
+
+            {/* Leitores e vendedores (em propostas de colegas) só acompanham */}
+            {permissions.canEdit(proposal) && (
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" onClick={() => onContacted(proposal.id)} className="gap-1">
+                  <PhoneCall className="h-4 w-4" /> Contatado hoje
+                </Button>
+
+                <Popover
+                  open={snoozingId === proposal.id}
+                  onOpenChange={(open) => setSnoozingId(open ? proposal.id : null)}
+                >
+                  <PopoverTrigger asChild>
+                    <Button size="sm" variant="outline" className="gap-1">
+                      <AlarmClock className="h-4 w-4" /> Adiar até…
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="end">
+                    <div className="flex gap-2 p-3 border-b">
+                      {snoozeShortcuts.map(({ label, days }) => (
+                        <Button
+                          key={days}
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => snooze(proposal.id, addDays(days))}
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                    <Calendar
+                      mode="single"
+                      disabled={{ before: addDays(1) }}
+                      onSelect={(date) => snooze(proposal.id, date)}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onMarkLost(proposal.id)}
+                  className="gap-1 text-red-700 hover:bg-red-50"
+                >
+                  <XCircle className="h-4 w-4" /> Perdida
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => onEdit(proposal)} title="Editar">
+                  <Edit className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </Card>
+        );
+      })}
+      <p className="flex items-center gap-1 text-xs text-muted-foreground">
+        <CalendarClock className="h-3 w-3" />
+        Propostas adiadas voltam para a lista na nova data de retorno.
+      </p>
+    </div>
+  );
+};
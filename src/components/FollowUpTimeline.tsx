@@ -0,0 +1,217 @@
+import { useState, useEffect, useCallback } from "react";
+import { FollowUp, FollowUpOutcome, ProposalChannel, channelLabels, sentViaOptions } from "@/types/proposal";
+import { toFollowUp } from "@/lib/proposal-mappers";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, MessageSquarePlus, Trash2 } from "lucide-react";
+
+interface FollowUpTimelineProps {
+  proposalId: string;
+  // Avisa o pai que o último follow-up da proposta pode ter mudado
+  onChange?: () => void;
+  readOnly?: boolean; // Sem permissão para editar a proposta: só a linha do tempo
+}
+
+const outcomeLabels: Record<FollowUpOutcome, string> = {
+  contacted: "Contato feito",
+  no_answer: "Sem resposta",
+  call_back: "Retornar depois",
+  negotiating: "Em negociação",
+  interested: "Cliente interessado",
+  declined: "Cliente recusou",
+};
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export const FollowUpTimeline = ({ proposalId, onChange, readOnly }: FollowUpTimelineProps) => {
+  const [followUps, setFollowUps] = useState<FollowUp[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // --- NOVO CONTATO ---
+  const [contactedAt, setContactedAt] = useState(today());
+  const [channel, setChannel] = useState<ProposalChannel>("email");
+  const [outcome, setOutcome] = useState<FollowUpOutcome>("no_answer");
+  const [note, setNote] = useState("");
+
+  const fetchFollowUps = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("proposal_follow_ups")
+        .select("*")
+        .eq("proposal_id", proposalId)
+        .order("contacted_at", { ascending: false });
+
+      if (error) throw error;
+
+      setFollowUps(data.map(toFollowUp));
+    } catch (error) {
+      console.error("Erro ao buscar follow-ups:", error);
+      toast.error("Erro ao carregar histórico de contatos.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [proposalId]);
+
+  useEffect(() => {
+    fetchFollowUps();
+  }, [fetchFollowUps]);
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.from("proposal_follow_ups").insert({
+        proposal_id: proposalId,
+        contacted_at: new Date(contactedAt).toISOString(),
+        channel,
+        outcome,
+        note: note || null,
+      });
+
+      if (error) throw error;
+      toast.success("Contato registrado!");
+      setNote("");
+      setContactedAt(today());
+      fetchFollowUps();
+      onChange?.();
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao registrar contato.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from("proposal_follow_ups").delete().eq("id", id);
+      if (error) throw error;
+      fetchFollowUps();
+      onChange?.();
+    } catch (error) {
+      toast.error("Erro ao excluir contato.");
+    }
+  };
+
+  const formatDate = (date: Date) => new Intl.DateTimeFormat("pt-BR").format(date);
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold text-foreground">Histórico de Follow-ups</h3>
+
+      {/* FORMULÁRIO DE NOVO CONTATO */}
+      {!readOnly && (
+        <div className="grid gap-3 md:grid-cols-3 p-4 bg-slate-50 rounded-lg border border-slate-200">
+          <div>
+            <label className="text-xs font-semibold text-slate-500 mb-1 block">Data do Contato</label>
+            <Input
+              type="date"
+              value={contactedAt}
+              onChange={(e) => setContactedAt(e.target.value)}
+              className="bg-white"
+            />
+          </div>
+          <div>
+            <label className="text-xs font-semibold text-slate-500 mb-1 block">Canal</label>
+            <Select value={channel} onValueChange={(v) => setChannel(v as ProposalChannel)}>
+              <SelectTrigger className="bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sentViaOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-xs font-semibold text-slate-500 mb-1 block">Resultado</label>
+            <Select value={outcome} onValueChange={(v) => setOutcome(v as FollowUpOutcome)}>
+              <SelectTrigger className="bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(outcomeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="md:col-span-3">
+            <Textarea
+              placeholder="O que foi conversado?"
+              className="resize-none bg-white"
+              rows={2}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <div className="md:col-span-3 flex justify-end">
+            <Button type="button" size="sm" onClick={handleAdd} disabled={isSaving || !contactedAt} className="gap-2">
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <MessageSquarePlus className="h-4 w-4" />}
+              Registrar Contato
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* LINHA DO TEMPO */}
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : followUps.length === 0 ? (
+        <p className="text-sm text-center text-slate-500 py-4">
+          Nenhum contato registrado ainda.
+        </p>
+      ) : (
+        <ol className="relative border-l border-slate-200 ml-2 space-y-4">
+          {followUps.map((followUp) => (
+            <li key={followUp.id} className="ml-4 group">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-[#25515c]" />
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium text-foreground">
+                    {formatDate(followUp.contactedAt)} · {followUp.channel ? channelLabels[followUp.channel] : "-"}
+                    <span className="ml-2 text-xs font-semibold uppercase tracking-wide text-[#0e6e7c]">
+                      {outcomeLabels[followUp.outcome] ?? followUp.outcome}
+                    </span>
+                  </p>
+                  {followUp.note && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-line">{followUp.note}</p>
+                  )}
+                </div>
+                {!readOnly && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100 hover:text-red-600"
+                    onClick={() => handleDelete(followUp.id)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { statusChartColors, statusLabels } from "@/types/proposal";
+import { PipelineForecast } from "@/lib/proposal-forecast";
+import { formatCompactCurrency, formatCurrency } from "@/lib/format";
+
+interface ForecastChartProps {
+  forecast: PipelineForecast;
+}
+
+export const ForecastChart = ({ forecast }: ForecastChartProps) => {
+  const config = Object.fromEntries(
+    forecast.statuses.map((status) => [status, { label: statusLabels[status], color: statusChartColors[status] }])
+  ) satisfies ChartConfig;
+
+  return (
+    <ChartContainer config={config} className="aspect-auto h-[280px] w-full">
+      <BarChart data={forecast.months} margin={{ left: 8, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+        <YAxis tickLine={false} axisLine={false} width={70} tickFormatter={formatCompactCurrency} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              formatter={(value, name) => (
+                <div className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">{config[name as string]?.label ?? name}</span>
+                  <span className="font-mono font-medium">{formatCurrency(Number(value))}</span>
+                </div>
+              )}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {forecast.statuses.map((status, index) => (
+          <Bar
+            key={status}
+            dataKey={status}
+            stackId="forecast"
+            fill={`var(--color-${status})`}
+            // Só a fatia do topo tem cantos arredondados
+            radius={index === forecast.statuses.length - 1 ? [4, 4, 0, 0] : 0}
+          />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+};
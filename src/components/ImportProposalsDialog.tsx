@@ -0,0 +1,332 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { FileSpreadsheet, Loader2, CheckCircle2, AlertCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { proposalSchema, ProposalFormValues } from "@/lib/proposal-schema";
+import { toProposalInsert } from "@/lib/proposal-mappers";
+import { clientKey } from "@/lib/clients";
+import {
+  ColumnMapping,
+  SpreadsheetRow,
+  guessMapping,
+  importFields,
+  parseSpreadsheet,
+  rowToFormValues,
+} from "@/lib/proposal-import";
+
+interface ImportProposalsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+type Step = "upload" | "mapping" | "preview";
+
+interface ValidatedRow {
+  line: number;
+  values?: ProposalFormValues;
+  raw: ReturnType<typeof rowToFormValues>;
+  errors: string[];
+}
+
+const BATCH_SIZE = 200;
+const NOT_MAPPED = "__none__";
+
+export const ImportProposalsDialog = ({
+  open,
+  onOpenChange,
+  onImported,
+}: ImportProposalsDialogProps) => {
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<SpreadsheetRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [validatedRows, setValidatedRows] = useState<ValidatedRow[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+    setValidatedRows([]);
+    setProgress(0);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (isImporting) return;
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    try {
+      const parsed = await parseSpreadsheet(file);
+      if (parsed.rows.length === 0) {
+        toast.error("A planilha está vazia.");
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(parsed.headers);
+      setRows(parsed.rows);
+      setMapping(guessMapping(parsed.headers));
+      setStep("mapping");
+    } catch (error) {
+      console.error(error);
+      toast.error("Não foi possível ler o arquivo.");
+    }
+  };
+
+  const validateRows = () => {
+    const result = rows.map((row, index) => {
+      const raw = rowToFormValues(row, mapping);
+      const parsed = proposalSchema.safeParse(raw);
+      const errors = parsed.success ? [] : parsed.error.issues.map((issue) => issue.message);
+      if (!raw.value) errors.push("Valor é obrigatório");
+
+      return {
+        // +2: cabeçalho ocupa a linha 1 da planilha
+        line: index + 2,
+        raw,
+        values: parsed.success && errors.length === 0 ? parsed.data : undefined,
+        errors,
+      };
+    });
+
+    setValidatedRows(result);
+    setStep("preview");
+  };
+
+  // Resolve nomes de cliente para ids, cadastrando os que ainda não existem na organização
+  const resolveClients = async (names: string[]) => {
+    const { data: existing, error } = await supabase.from("clients").select("id, name");
+    if (error) throw error;
+
+    const ids = new Map(existing.map((c) => [clientKey(c.name), c.id]));
+    const missing = new Map<string, string>();
+    names.forEach((name) => {
+      if (!ids.has(clientKey(name)) && !missing.has(clientKey(name))) missing.set(clientKey(name), name.trim());
+    });
+
+    if (missing.size > 0) {
+      const { data: created, error: createError } = await supabase
+        .from("clients")
+        .insert([...missing.values()].map((name) => ({ name })))
+        .select("id, name");
+      if (createError) throw createError;
+      created.forEach((c) => ids.set(clientKey(c.name), c.id));
+    }
+
+    return ids;
+  };
+
+  const handleImport = async () => {
+    const validRows = validatedRows.filter((r) => r.values).map((r) => r.values!);
+    if (validRows.length === 0) return;
+
+    setIsImporting(true);
+    setProgress(0);
+    try {
+      const clientIds = await resolveClients(validRows.map((r) => r.clientName));
+
+      for (let i = 0; i < validRows.length; i += BATCH_SIZE) {
+        const batch = validRows.slice(i, i + BATCH_SIZE).map((r) =>
+          toProposalInsert({
+            clientId: clientIds.get(clientKey(r.clientName)),
+            clientName: r.clientName,
+            sentDate: new Date(r.sentDate),
+            value: r.value,
+            status: r.status,
+            sentVia: r.sentVia,
+            lastFollowUp: new Date(r.sentDate),
+            expectedReturnDate: r.expectedReturnDate ? new Date(r.expectedReturnDate) : undefined,
+            notes: r.notes,
+          })
+        );
+
+        const { error } = await supabase.from("proposals").insert(batch);
+        if (error) throw error;
+
+        setProgress(Math.round(((i + batch.length) / validRows.length) * 100));
+      }
+
+      toast.success(`${validRows.length} propostas importadas!`);
+      onImported();
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao importar. As linhas já enviadas foram mantidas.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const formatCurrency = (value: string) => {
+    const number = Number(value);
+    if (!value || isNaN(number)) return value || "-";
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(number);
+  };
+
+  const requiredMapped = importFields.filter((f) => f.required).every((f) => mapping[f.field]);
+  const validCount = validatedRows.filter((r) => r.values).length;
+  const invalidCount = validatedRows.length - validCount;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar Propostas</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Selecione uma planilha CSV ou XLSX. O arquivo é lido no seu navegador."}
+            {step === "mapping" && `${fileName}: ${rows.length} linhas. Indique qual coluna corresponde a cada campo.`}
+            {step === "preview" && "Confira as linhas antes de importar. Linhas com erro serão ignoradas."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* PASSO 1: ARQUIVO */}
+        {step === "upload" && (
+          <label className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-slate-300 rounded-lg cursor-pointer hover:bg-slate-50">
+            <FileSpreadsheet className="h-10 w-10 text-primary" />
+            <span className="text-sm text-muted-foreground">Clique para escolher o arquivo</span>
+            <Input
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {/* PASSO 2: MAPEAMENTO DE COLUNAS */}
+        {step === "mapping" && (
+          <div className="grid gap-4 md:grid-cols-2">
+            {importFields.map(({ field, label, required }) => (
+              <div key={field}>
+                <label className="text-xs font-semibold text-slate-500 mb-1 block">
+                  {label} {required && <span className="text-red-500">*</span>}
+                </label>
+                <Select
+                  value={mapping[field] ?? NOT_MAPPED}
+                  onValueChange={(column) =>
+                    setMapping({ ...mapping, [field]: column === NOT_MAPPED ? undefined : column })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>Não importar</SelectItem>
+                    {headers.map((header) => (
+                      <SelectItem key={header} value={header}>
+                        {header}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* PASSO 3: PRÉ-VISUALIZAÇÃO */}
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex gap-4 text-sm">
+              <span className="flex items-center gap-1 text-green-700">
+                <CheckCircle2 className="h-4 w-4" /> {validCount} válidas
+              </span>
+              {invalidCount > 0 && (
+                <span className="flex items-center gap-1 text-red-600">
+                  <AlertCircle className="h-4 w-4" /> {invalidCount} com erro
+                </span>
+              )}
+            </div>
+
+            <div className="rounded-md border border-slate-200 max-h-[50vh] overflow-auto">
+              <Table>
+                <TableHeader className="bg-slate-50">
+                  <TableRow>
+                    <TableHead className="w-[60px]">Linha</TableHead>
+                    <TableHead>Cliente</TableHead>
+                    <TableHead>Data Envio</TableHead>
+                    <TableHead>Valor</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Erros</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {validatedRows.map((row) => (
+                    <TableRow key={row.line} className={row.values ? "" : "bg-red-50"}>
+                      <TableCell className="text-slate-500">{row.line}</TableCell>
+                      <TableCell className="font-medium">{row.raw.clientName || "-"}</TableCell>
+                      <TableCell>{row.raw.sentDate || "-"}</TableCell>
+                      <TableCell>{formatCurrency(row.raw.value)}</TableCell>
+                      <TableCell>{row.raw.status}</TableCell>
+                      <TableCell className="text-xs text-red-600">{row.errors.join("; ")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {isImporting && <Progress value={progress} />}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "mapping" && (
+            <>
+              <Button variant="outline" onClick={reset}>Trocar arquivo</Button>
+              <Button onClick={validateRows} disabled={!requiredMapped}>Validar linhas</Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("mapping")} disabled={isImporting}>
+                Voltar
+              </Button>
+              <Button onClick={handleImport} disabled={isImporting || validCount === 0} className="gap-2">
+                {isImporting && <Loader2 className="h-4 w-4 animate-spin" />}
+                Importar {validCount} propostas
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { LossDetails } from "@/types/proposal";
+
+interface LossReasonDialogProps {
+  open: boolean;
+  count: number; // Quantas propostas serão recusadas
+  reasons: string[];
+  onConfirm: (loss: LossDetails) => void;
+  onCancel: () => void;
+}
+
+export const LossReasonDialog = ({ open, count, reasons, onConfirm, onCancel }: LossReasonDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [competitor, setCompetitor] = useState("");
+  const [notes, setNotes] = useState("");
+
+  // Cada recusa começa com o formulário limpo
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setCompetitor("");
+      setNotes("");
+    }
+  }, [open]);
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) return;
+    onConfirm({ lossReason: reason, lossCompetitor: competitor, lossNotes: notes });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Motivo da perda</DialogTitle>
+          <DialogDescription>
+            {count === 1
+              ? "Por que esta proposta foi recusada?"
+              : `Por que estas ${count} propostas foram recusadas? O motivo vale para todas.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="loss-reason-form" onSubmit={handleConfirm} className="space-y-4">
+          <div>
+            <Label>Motivo *</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger className="mt-1">
+                <SelectValue placeholder="Selecione o motivo" />
+              </SelectTrigger>
+              <SelectContent>
+                {reasons.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="loss-competitor">Concorrente</Label>
+            <Input
+              id="loss-competitor"
+              placeholder="Quem ganhou, se souber"
+              value={competitor}
+              onChange={(e) => setCompetitor(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="loss-notes">Observações</Label>
+            <Textarea
+              id="loss-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancelar</Button>
+          <Button type="submit" form="loss-reason-form" variant="destructive" disabled={!reason}>
+            Recusar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
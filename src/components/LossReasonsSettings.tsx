@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useLossReasons, useSaveLossReasons } from "@/hooks/use-loss-reasons";
+import { defaultLossReasons } from "@/types/proposal";
+
+export const LossReasonsSettings = () => {
+  const reasonsQuery = useLossReasons();
+  const saveReasons = useSaveLossReasons();
+  const [reasons, setReasons] = useState<string[]>(defaultLossReasons);
+
+  useEffect(() => {
+    if (reasonsQuery.data) setReasons(reasonsQuery.data);
+  }, [reasonsQuery.data]);
+
+  const updateReason = (index: number, value: string) =>
+    setReasons(reasons.map((reason, i) => (i === index ? value : reason)));
+
+  const handleSave = async () => {
+    const cleaned = reasons.map((reason) => reason.trim()).filter(Boolean);
+    const unique = new Set(cleaned.map((reason) => reason.toLowerCase()));
+
+    if (cleaned.length === 0) {
+      toast.error("Cadastre ao menos um motivo.");
+      return;
+    }
+    if (unique.size !== cleaned.length) {
+      toast.error("Há motivos repetidos na lista.");
+      return;
+    }
+
+    try {
+      await saveReasons.mutateAsync(cleaned);
+      toast.success("Motivos de perda salvos!");
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao salvar configurações.");
+    }
+  };
+
+  return (
+    <Card className="p-6 border-slate-200 shadow-sm">
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold text-foreground">Motivos de perda</h2>
+        <p className="text-sm text-muted-foreground">
+          Opções pedidas ao recusar uma proposta. Propostas já recusadas mantêm o motivo que tinham.
+        </p>
+      </div>
+
+      <div className="space-y-2 max-w-md">
+        {reasons.map((reason, index) => (
+          <div key={index} className="flex gap-2">
+            <Input value={reason} onChange={(e) => updateReason(index, e.target.value)} placeholder="Ex: Preço" />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="text-destructive"
+              title="Remover motivo"
+              disabled={reasons.length === 1}
+              onClick={() => setReasons(reasons.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-between gap-2 pt-4">
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={() => setReasons([...reasons, ""])} className="gap-2">
+            <Plus className="h-4 w-4" /> Adicionar motivo
+          </Button>
+          <Button type="button" variant="outline" onClick={() => setReasons(defaultLossReasons)} className="gap-2">
+            <RotateCcw className="h-4 w-4" /> Restaurar padrão
+          </Button>
+        </div>
+        <Button onClick={handleSave} disabled={saveReasons.isPending} className="gap-2">
+          {saveReasons.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          Salvar
+        </Button>
+      </div>
+    </Card>
+  );
+};
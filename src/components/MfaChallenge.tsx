@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { getAuthErrorMessage } from "@/lib/auth";
+import { useVerifyTotp } from "@/hooks/use-mfa";
+
+const CODE_LENGTH = 6;
+
+interface MfaChallengeProps {
+  factorId: string;
+  onVerified: () => void;
+  submitLabel?: string;
+}
+
+/** Código de 6 dígitos do aplicativo autenticador; confere sozinho ao completar. */
+export const MfaChallenge = ({ factorId, onVerified, submitLabel = "Verificar" }: MfaChallengeProps) => {
+  const verifyTotp = useVerifyTotp();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string>();
+
+  const verify = async (value: string) => {
+    setError(undefined);
+    try {
+      await verifyTotp.mutateAsync({ factorId, code: value });
+      onVerified();
+    } catch (err) {
+      console.error(err);
+      setError(getAuthErrorMessage(err, "Não foi possível verificar o código."));
+      setCode("");
+    }
+  };
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (code.length === CODE_LENGTH) verify(code);
+      }}
+    >
+      <div className="flex justify-center">
+        <InputOTP
+          maxLength={CODE_LENGTH}
+          pattern={REGEXP_ONLY_DIGITS}
+          value={code}
+          onChange={setCode}
+          onComplete={verify}
+          disabled={verifyTotp.isPending}
+          autoFocus
+        >
+          <InputOTPGroup>
+            {Array.from({ length: CODE_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      {error && <p className="text-center text-sm font-medium text-destructive">{error}</p>}
+
+      <Button type="submit" className="w-full" disabled={code.length < CODE_LENGTH || verifyTotp.isPending}>
+        {verifyTotp.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+};
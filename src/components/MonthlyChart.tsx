@@ -0,0 +1,108 @@
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { statusChartColors, statusLabels } from "@/types/proposal";
+import { AnalyticsMetric, MonthlyAnalytics } from "@/lib/proposal-analytics";
+import { formatCompactCurrency, formatCurrency } from "@/lib/format";
+
+interface MonthlyChartProps {
+  analytics: MonthlyAnalytics;
+  metric: AnalyticsMetric;
+  compare: boolean; // Mostra a linha do mesmo mês no ano anterior
+}
+
+export const MonthlyChart = ({ analytics, metric, compare }: MonthlyChartProps) => {
+  const config = {
+    ...Object.fromEntries(
+      analytics.statuses.map((status) => [status, { label: statusLabels[status], color: statusChartColors[status] }])
+    ),
+    winRate: { label: "Taxa de conversão", color: "#25515c" },
+    previous: { label: "Total no ano anterior", color: "#64748b" },
+  } satisfies ChartConfig;
+
+  const data = analytics.months.map((month) => ({
+    label: month.label,
+    ...month[metric],
+    winRate: month.summary.winRate,
+    previous: metric === "count" ? month.previous.total : month.previous.totalValue,
+  }));
+
+  const formatMetric = (value: number) => (metric === "count" ? value.toString() : formatCurrency(value));
+
+  return (
+    <ChartContainer config={config} className="aspect-auto h-[340px] w-full">
+      <ComposedChart data={data} margin={{ left: 8, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+        <YAxis
+          yAxisId="metric"
+          tickLine={false}
+          axisLine={false}
+          width={70}
+          allowDecimals={false}
+          tickFormatter={metric === "count" ? undefined : formatCompactCurrency}
+        />
+        <YAxis
+          yAxisId="rate"
+          orientation="right"
+          domain={[0, 100]}
+          tickLine={false}
+          axisLine={false}
+          width={40}
+          tickFormatter={(value) => `${value}%`}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              formatter={(value, name) => (
+                <div className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">{config[name as keyof typeof config]?.label ?? name}</span>
+                  <span className="font-mono font-medium">
+                    {name === "winRate" ? `${Number(value).toFixed(0)}%` : formatMetric(Number(value))}
+                  </span>
+                </div>
+              )}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {analytics.statuses.map((status, index) => (
+          <Bar
+            key={status}
+            yAxisId="metric"
+            dataKey={status}
+            stackId="status"
+            fill={`var(--color-${status})`}
+            radius={index === analytics.statuses.length - 1 ? [4, 4, 0, 0] : 0}
+          />
+        ))}
+        {compare && (
+          <Line
+            yAxisId="metric"
+            dataKey="previous"
+            type="monotone"
+            stroke="var(--color-previous)"
+            strokeDasharray="5 5"
+            strokeWidth={2}
+            dot={false}
+          />
+        )}
+        {/* Meses sem nenhuma proposta decidida ficam sem ponto; a linha liga os vizinhos */}
+        <Line
+          yAxisId="rate"
+          dataKey="winRate"
+          type="monotone"
+          stroke="var(--color-winRate)"
+          strokeWidth={2}
+          connectNulls
+        />
+      </ComposedChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Trash2, UserPlus } from "lucide-react";
+import { toast } from "sonner";
+import { MembershipRole, OrganizationMember, membershipRoleLabels } from "@/types/organization";
+import {
+  useAddOrganizationMember,
+  useInviteOrganizationMember,
+  useOrganizationMembers,
+  useRemoveOrganizationMember,
+  useSetOrganizationMemberRole,
+} from "@/hooks/use-organizations";
+
+const roles = Object.keys(membershipRoleLabels) as MembershipRole[];
+
+// Recusas das funções do banco (sem permissão, último admin) já vêm com a mensagem em português
+const getMemberErrorMessage = (error: unknown, fallback: string) => {
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  return code === "42501" || code === "23514" ? message ?? fallback : fallback;
+};
+
+interface OrganizationMembersProps {
+  currentUserId?: string;
+}
+
+/** Membros da organização atual e seus papéis (só para admins). */
+export const OrganizationMembers = ({ currentUserId }: OrganizationMembersProps) => {
+  const membersQuery = useOrganizationMembers();
+  const addMember = useAddOrganizationMember();
+  const inviteMember = useInviteOrganizationMember();
+  const setMemberRole = useSetOrganizationMemberRole();
+  const removeMember = useRemoveOrganizationMember();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<MembershipRole>("seller");
+  const [memberToRemove, setMemberToRemove] = useState<OrganizationMember>();
+  const isAdding = addMember.isPending || inviteMember.isPending;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    try {
+      // Quem já tem conta entra direto; os demais recebem um convite por e-mail
+      const added = await addMember.mutateAsync({ email: email.trim(), role });
+      if (added) {
+        toast.success("Membro adicionado!");
+      } else {
+        await inviteMember.mutateAsync({ email: email.trim(), role });
+        toast.success(`Convite enviado para ${email.trim()}. A pessoa entra na lista ao aceitar o convite.`);
+      }
+      setEmail("");
+    } catch (error) {
+      console.error(error);
+      toast.error(getMemberErrorMessage(error, "Erro ao adicionar o membro."));
+    }
+  };
+
+  const handleRoleChange = async (member: OrganizationMember, newRole: MembershipRole) => {
+    try {
+      await setMemberRole.mutateAsync({ userId: member.userId, role: newRole });
+      toast.success(`${member.name} agora é ${membershipRoleLabels[newRole].toLowerCase()}.`);
+    } catch (error) {
+      console.error(error);
+      toast.error(getMemberErrorMessage(error, "Erro ao mudar o papel."));
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!memberToRemove) return;
+    try {
+      await removeMember.mutateAsync(memberToRemove.userId);
+      toast.success(`${memberToRemove.name} saiu da organização.`);
+    } catch (error) {
+      console.error(error);
+      toast.error(getMemberErrorMessage(error, "Erro ao remover o membro."));
+    }
+  };
+
+  return (
+    <Card className="p-6 border-slate-200 shadow-sm">
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold text-foreground">Membros</h2>
+        <p className="text-sm text-muted-foreground">
+          Administradores fazem tudo, vendedores editam as propostas de que são responsáveis e leitores só
+          consultam. E-mails sem conta recebem um convite.
+        </p>
+      </div>
+
+      <form onSubmit={handleAdd} className="mb-6 flex flex-wrap gap-2">
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="nome@complementare.com.br"
+          className="max-w-xs"
+        />
+        <Select value={role} onValueChange={(value) => setRole(value as MembershipRole)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {roles.map((r) => (
+              <SelectItem key={r} value={r}>
+                {membershipRoleLabels[r]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={!email.trim() || isAdding} className="gap-2">
+          {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+          Adicionar
+        </Button>
+      </form>
+
+      {membersQuery.isPending ? (
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      ) : membersQuery.isError ? (
+        <p className="text-sm text-destructive">Erro ao carregar os membros.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nome</TableHead>
+              <TableHead>E-mail</TableHead>
+              <TableHead className="w-44">Papel</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {membersQuery.data.map((member) => (
+              <TableRow key={member.userId}>
+                <TableCell className="font-medium">
+                  {member.name}
+                  {member.userId === currentUserId && <span className="text-muted-foreground"> (você)</span>}
+                </TableCell>
+                <TableCell className="text-muted-foreground">{member.email}</TableCell>
+                <TableCell>
+                  <Select
+                    value={member.role}
+                    disabled={setMemberRole.isPending}
+                    onValueChange={(value) => handleRoleChange(member, value as MembershipRole)}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roles.map((r) => (
+                        <SelectItem key={r} value={r}>
+                          {membershipRoleLabels[r]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive"
+                    title="Remover da organização"
+                    onClick={() => setMemberToRemove(member)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <AlertDialog open={!!memberToRemove} onOpenChange={(open) => !open && setMemberToRemove(undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover {memberToRemove?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {memberToRemove?.userId === currentUserId
+                ? "Você deixa de ver as propostas desta organização."
+                : "A pessoa deixa de ver as propostas desta organização."}{" "}
+              As propostas de que era responsável ficam sem responsável.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove} className="bg-red-600 hover:bg-red-700">
+              Remover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -0,0 +1,46 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Building2 } from "lucide-react";
+import { toast } from "sonner";
+import { useCurrentOrganizationId, useOrganizations, useSwitchOrganization } from "@/hooks/use-organizations";
+
+/** Só aparece para quem é membro de mais de uma organização. */
+export const OrganizationSwitcher = () => {
+  const organizationsQuery = useOrganizations();
+  const currentQuery = useCurrentOrganizationId();
+  const switchOrganization = useSwitchOrganization();
+
+  const organizations = organizationsQuery.data ?? [];
+  if (organizations.length < 2 || !currentQuery.data) return null;
+
+  const handleChange = async (organizationId: string) => {
+    try {
+      await switchOrganization.mutateAsync(organizationId);
+      toast.success(`Organização: ${organizations.find((o) => o.id === organizationId)?.name}`);
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao trocar de organização.");
+    }
+  };
+
+  return (
+    <Select value={currentQuery.data} onValueChange={handleChange} disabled={switchOrganization.isPending}>
+      <SelectTrigger className="w-56" title="Organização">
+        <Building2 className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {organizations.map((organization) => (
+          <SelectItem key={organization.id} value={organization.id}>
+            {organization.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
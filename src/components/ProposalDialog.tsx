@@ -1,7 +1,6 @@
 import { useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
 import {
   Dialog,
   DialogContent,
@@ -26,26 +25,31 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { Proposal } from "@/types/proposal";
-
-const proposalSchema = z.object({
-  clientName: z.string().min(1, "Nome do cliente é obrigatório"),
-  sentDate: z.string(),
-  value: z.coerce.number().min(0, "Valor deve ser maior que zero"),
-  status: z.enum(["pending", "approved", "rejected"]),
-  sentVia: z.string().optional(), // Validação do novo campo
-  lastFollowUp: z.string(),
-  expectedReturnDate: z.string().optional(),
-  notes: z.string(),
-});
+import { Separator } from "@/components/ui/separator";
+import { FollowUpTimeline } from "@/components/FollowUpTimeline";
+import { ClientPicker } from "@/components/ClientPicker";
+import { Proposal, sentViaOptions, statusLabels } from "@/types/proposal";
+import {
+  canTransition,
+  defaultWinProbability,
+  proposalStatuses,
+  transitionError,
+} from "@/lib/proposal-status";
+import { proposalSchema, ProposalFormValues } from "@/lib/proposal-schema";
+import { OrganizationMember } from "@/types/organization";
+import { usePermissions } from "@/hooks/use-permissions";
 
-type ProposalFormValues = z.infer<typeof proposalSchema>;
+// O Select não aceita valor vazio: opção que representa "sem responsável"
+const NO_OWNER = "none";
 
 interface ProposalDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSave: (proposal: Proposal | Omit<Proposal, "id">) => void;
   proposal?: Proposal;
+  onFollowUpChange?: () => void;
+  lossReasons: string[];
+  members: OrganizationMember[]; // Responsáveis possíveis
 }
 
 export const ProposalDialog = ({
@@ -53,61 +57,99 @@ export const ProposalDialog = ({
   onOpenChange,
   onSave,
   proposal,
+  onFollowUpChange,
+  lossReasons,
+  members,
 }: ProposalDialogProps) => {
+  const permissions = usePermissions();
+  const currentUserId = permissions.userId;
   const form = useForm<ProposalFormValues>({
     resolver: zodResolver(proposalSchema),
     defaultValues: {
+      clientId: "",
       clientName: "",
       sentDate: new Date().toISOString().split("T")[0],
       value: 0,
       status: "pending",
-      sentVia: "Email", // Valor padrão
-      lastFollowUp: new Date().toISOString().split("T")[0],
+      sentVia: "email", // Valor padrão
       expectedReturnDate: "",
+      winProbability: "",
       notes: "",
+      lossReason: "",
+      lossCompetitor: "",
+      lossNotes: "",
+      ownerId: "",
     },
   });
+  const selectedStatus = form.watch("status");
+  const isRejected = selectedStatus === "rejected";
 
   useEffect(() => {
     if (proposal) {
       form.reset({
+        clientId: proposal.clientId ?? "",
         clientName: proposal.clientName,
         sentDate: proposal.sentDate.toISOString().split("T")[0],
         value: proposal.value,
         status: proposal.status,
-        sentVia: proposal.sentVia || "Email", // Carrega o valor existente
-        lastFollowUp: proposal.lastFollowUp.toISOString().split("T")[0],
+        sentVia: proposal.sentVia ?? "email", // Carrega o valor existente
         expectedReturnDate: proposal.expectedReturnDate
           ? proposal.expectedReturnDate.toISOString().split("T")[0]
           : "",
+        winProbability: proposal.winProbability?.toString() ?? "",
         notes: proposal.notes,
+        lossReason: proposal.lossReason ?? "",
+        lossCompetitor: proposal.lossCompetitor ?? "",
+        lossNotes: proposal.lossNotes ?? "",
+        ownerId: proposal.ownerId ?? "",
       });
     } else {
       form.reset({
+        clientId: "",
         clientName: "",
         sentDate: new Date().toISOString().split("T")[0],
         value: 0,
         status: "pending",
-        sentVia: "Email",
-        lastFollowUp: new Date().toISOString().split("T")[0],
+        sentVia: "email",
         expectedReturnDate: "",
+        winProbability: "",
         notes: "",
+        lossReason: "",
+        lossCompetitor: "",
+        lossNotes: "",
+        ownerId: currentUserId ?? "", // Nova proposta fica com quem cria
       });
     }
-  }, [proposal, form, open]);
+  }, [proposal, form, open, currentUserId]);
 
   const onSubmit = (data: ProposalFormValues) => {
+    if (proposal && !canTransition(proposal.status, data.status)) {
+      form.setError("status", { message: transitionError(proposal.status, data.status) });
+      return;
+    }
+    if (data.status === "rejected" && !data.lossReason) {
+      form.setError("lossReason", { message: "Informe o motivo da perda" });
+      return;
+    }
+
     const proposalData: Omit<Proposal, "id"> = {
+      clientId: data.clientId || undefined,
       clientName: data.clientName,
       value: data.value,
       status: data.status,
-      sentVia: data.sentVia, // Salva o novo campo
+      sentVia: data.sentVia,
       notes: data.notes,
       sentDate: new Date(data.sentDate),
-      lastFollowUp: new Date(data.lastFollowUp),
+      // O follow-up vem do histórico; numa proposta nova, o envio é o primeiro contato
+      lastFollowUp: proposal?.lastFollowUp ?? new Date(data.sentDate),
       expectedReturnDate: data.expectedReturnDate
         ? new Date(data.expectedReturnDate)
         : undefined,
+      winProbability: data.winProbability ? Number(data.winProbability) : undefined,
+      lossReason: data.lossReason,
+      lossCompetitor: data.lossCompetitor,
+      lossNotes: data.lossNotes,
+      ownerId: data.ownerId || undefined,
     };
 
     if (proposal) {
@@ -122,7 +164,7 @@ export const ProposalDialog = ({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {proposal ? "Editar Proposta" : "Nova Proposta"}
@@ -137,10 +179,15 @@ export const ProposalDialog = ({
                 name="clientName"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Nome do Cliente</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Ex: Construtora ABC" {...field} />
-                    </FormControl>
+                    <FormLabel>Cliente</FormLabel>
+                    <ClientPicker
+                      value={form.watch("clientId")}
+                      clientName={field.value}
+                      onChange={(client) => {
+                        form.setValue("clientId", client.id);
+                        field.onChange(client.name);
+                      }}
+                    />
                     <FormMessage />
                   </FormItem>
                 )}
@@ -163,9 +210,11 @@ export const ProposalDialog = ({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="Email">E-mail</SelectItem>
-                        <SelectItem value="WhatsApp">WhatsApp</SelectItem>
-                        <SelectItem value="Outro">Outro</SelectItem>
+                        {sentViaOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -214,7 +263,7 @@ export const ProposalDialog = ({
                     <FormLabel>Status</FormLabel>
                     <Select
                       onValueChange={field.onChange}
-                      defaultValue={field.value}
+                      value={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -222,9 +271,16 @@ export const ProposalDialog = ({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="pending">Aguardando</SelectItem>
-                        <SelectItem value="approved">Aprovada</SelectItem>
-                        <SelectItem value="rejected">Recusada</SelectItem>
+                        {/* Na edição, só os destinos permitidos a partir do status atual */}
+                        {proposalStatuses.map((status) => (
+                          <SelectItem
+                            key={status}
+                            value={status}
+                            disabled={!!proposal && !canTransition(proposal.status, status)}
+                          >
+                            {statusLabels[status]}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -234,10 +290,10 @@ export const ProposalDialog = ({
 
               <FormField
                 control={form.control}
-                name="lastFollowUp"
+                name="expectedReturnDate"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Último Follow-up</FormLabel>
+                    <FormLabel>Previsão de Retorno</FormLabel>
                     <FormControl>
                       <Input type="date" {...field} />
                     </FormControl>
@@ -248,12 +304,50 @@ export const ProposalDialog = ({
 
               <FormField
                 control={form.control}
-                name="expectedReturnDate"
+                name="ownerId"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Previsão de Retorno</FormLabel>
+                    <FormLabel>Responsável</FormLabel>
+                    {/* Só o admin troca o responsável; o vendedor vê o nome, mas não muda */}
+                    <Select
+                      onValueChange={(value) => field.onChange(value === NO_OWNER ? "" : value)}
+                      value={field.value || NO_OWNER}
+                      disabled={!permissions.canAssign}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_OWNER}>Sem responsável</SelectItem>
+                        {members.map((member) => (
+                          <SelectItem key={member.userId} value={member.userId}>
+                            {member.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="winProbability"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Probabilidade de Ganho (%)</FormLabel>
                     <FormControl>
-                      <Input type="date" {...field} />
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={1}
+                        placeholder={`Padrão: ${defaultWinProbability[selectedStatus]}%`}
+                        {...field}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -261,6 +355,63 @@ export const ProposalDialog = ({
               />
             </div>
 
+            {/* MOTIVO DA PERDA (só para recusadas) */}
+            {isRejected && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 rounded-md border border-red-200 bg-red-50/50 p-4">
+                <FormField
+                  control={form.control}
+                  name="lossReason"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Motivo da perda</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Selecione o motivo" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {/* Mantém o motivo salvo mesmo se ele saiu da lista configurada */}
+                          {[...new Set([...lossReasons, ...(field.value ? [field.value] : [])])].map((reason) => (
+                            <SelectItem key={reason} value={reason}>
+                              {reason}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="lossCompetitor"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Concorrente</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Quem ganhou, se souber" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="lossNotes"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>Detalhes da perda</FormLabel>
+                      <FormControl>
+                        <Textarea className="resize-none" rows={2} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="notes"
@@ -294,6 +445,14 @@ export const ProposalDialog = ({
             </div>
           </form>
         </Form>
+
+        {/* HISTÓRICO DE CONTATOS (só existe depois que a proposta foi criada) */}
+        {proposal && (
+          <>
+            <Separator />
+            <FollowUpTimeline proposalId={proposal.id} onChange={onFollowUpChange} />
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { Proposal, ProposalStatus, channelLabels } from "@/types/proposal";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Edit, Clock, CheckCircle2, XCircle, FilePen, Send, Handshake, Hourglass, Ban } from "lucide-react";
+import { canTransition } from "@/lib/proposal-status";
+import { usePermissions } from "@/hooks/use-permissions";
+
+interface ProposalsBoardProps {
+  proposals: Proposal[];
+  onEdit: (proposal: Proposal) => void;
+  onStatusChange: (id: string, newStatus: ProposalStatus) => void;
+}
+
+// Uma coluna por status, na mesma ordem usada na ordenação da tabela
+const columns: {
+  status: ProposalStatus;
+  title: string;
+  icon: typeof Clock;
+  color: string;
+  bgColor: string;
+}[] = [
+  {
+    status: "draft",
+    title: "Rascunhos",
+    icon: FilePen,
+    color: "text-slate-500",
+    bgColor: "bg-slate-100",
+  },
+  {
+    status: "sent",
+    title: "Enviadas",
+    icon: Send,
+    color: "text-sky-600",
+    bgColor: "bg-sky-50",
+  },
+  {
+    status: "pending",
+    title: "Aguardando",
+    icon: Clock,
+    color: "text-alert-attention",
+    bgColor: "bg-alert-attention/10",
+  },
+  {
+    status: "negotiating",
+    title: "Em negociação",
+    icon: Handshake,
+    color: "text-amber-600",
+    bgColor: "bg-amber-50",
+  },
+  {
+    status: "approved",
+    title: "Aprovadas",
+    icon: CheckCircle2,
+    color: "text-success",
+    bgColor: "bg-success/10",
+  },
+  {
+    status: "rejected",
+    title: "Recusadas",
+    icon: XCircle,
+    color: "text-destructive",
+    bgColor: "bg-destructive/10",
+  },
+  {
+    status: "expired",
+    title: "Expiradas",
+    icon: Hourglass,
+    color: "text-orange-600",
+    bgColor: "bg-orange-50",
+  },
+  {
+    status: "cancelled",
+    title: "Canceladas",
+    icon: Ban,
+    color: "text-slate-400",
+    bgColor: "bg-slate-100",
+  },
+];
+
+export const ProposalsBoard = ({
+  proposals,
+  onEdit,
+  onStatusChange,
+}: ProposalsBoardProps) => {
+  const permissions = usePermissions();
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overStatus, setOverStatus] = useState<ProposalStatus | null>(null);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  const formatDate = (date?: Date) => {
+    if (!date) return "-";
+    return new Intl.DateTimeFormat("pt-BR").format(date);
+  };
+
+  const handleDrop = (e: React.DragEvent, status: ProposalStatus) => {
+    e.preventDefault();
+    const id = e.dataTransfer.getData("text/plain");
+    const proposal = proposals.find((p) => p.id === id);
+
+    // Só grava se o card realmente mudou de coluna e a transição é permitida
+    if (proposal && proposal.status !== status && canTransition(proposal.status, status)) {
+      onStatusChange(id, status);
+    }
+
+    setDraggingId(null);
+    setOverStatus(null);
+  };
+
+  const dragging = proposals.find((p) => p.id === draggingId);
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {columns.map((column) => {
+        const Icon = column.icon;
+        const items = proposals.filter((p) => p.status === column.status);
+        const total = items.reduce((sum, p) => sum + p.value, 0);
+        const isOver = overStatus === column.status;
+        // Durante o arraste, colunas fora das transições permitidas ficam apagadas e não aceitam o card
+        const isBlocked = !!dragging && !canTransition(dragging.status, column.status);
+
+        return (
+          <Card
+            key={column.status}
+            className={`flex flex-col w-72 shrink-0 p-4 border-slate-200 shadow-sm transition-colors ${
+              isOver ? "bg-[#E4F4F0] border-[#25515c]/40" : ""
+            } ${isBlocked ? "opacity-40" : ""}`}
+            onDragOver={(e) => {
+              if (isBlocked) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = "move";
+              if (overStatus !== column.status) setOverStatus(column.status);
+            }}
+            onDragLeave={(e) => {
+              // Ignora o dragleave disparado ao passar por cima dos cards filhos
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                setOverStatus(null);
+              }
+            }}
+            onDrop={(e) => handleDrop(e, column.status)}
+          >
+            {/* CABEÇALHO DA COLUNA: contagem e total em R$ */}
+            <div className="flex items-center gap-3 pb-4 border-b border-slate-100">
+              <div className={`rounded-lg p-2 ${column.bgColor}`}>
+                <Icon className={`h-5 w-5 ${column.color}`} />
+              </div>
+              <div className="flex-1">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-bold text-foreground">{column.title}</h3>
+                  <Badge variant="outline" className="border-slate-300 text-slate-600">
+                    {items.length}
+                  </Badge>
+                </div>
+                <p className="text-sm font-medium text-muted-foreground">
+                  {formatCurrency(total)}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex-1 space-y-3 pt-4 min-h-[120px]">
+              {items.length === 0 ? (
+                <p className="text-sm text-center text-slate-400 py-8">
+                  Arraste propostas para cá
+                </p>
+              ) : (
+                items.map((proposal) => (
+                  <div
+                    key={proposal.id}
+                    draggable={permissions.canEdit(proposal)}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData("text/plain", proposal.id);
+                      e.dataTransfer.effectAllowed = "move";
+                      setDraggingId(proposal.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setOverStatus(null);
+                    }}
+                    className={`group rounded-md border border-slate-200 bg-white p-3 shadow-sm ${
+                      permissions.canEdit(proposal) ? "cursor-grab active:cursor-grabbing" : ""
+                    } ${
+                      draggingId === proposal.id ? "opacity-50" : ""
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="font-semibold text-sm leading-tight">{proposal.clientName}</p>
+                      {permissions.canEdit(proposal) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                          onClick={() => onEdit(proposal)}
+                        >
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                    <p className="mt-1 text-sm font-medium text-foreground">
+                      {formatCurrency(proposal.value)}
+                    </p>
+                    <div className="mt-2 flex justify-between text-xs text-muted-foreground">
+                      <span>Envio: {formatDate(proposal.sentDate)}</span>
+                      <span>{proposal.sentVia ? channelLabels[proposal.sentVia] : "-"}</span>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,5 +1,13 @@
-import { useState } from "react";
-import { Proposal, ProposalStatus } from "@/types/proposal";
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Proposal, ProposalStatus, channelLabels, statusLabels } from "@/types/proposal";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -14,8 +22,30 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { 
   Edit, Trash2, Search, ArrowUpDown, Check, X, Clock, 
-  AlertTriangle, AlertCircle, Filter, ChevronLeft, ChevronRight 
+  Filter, ChevronLeft, ChevronRight, Download, Loader2, MoreHorizontal, Eye, UserRound
 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { SavedViewsMenu } from "@/components/SavedViewsMenu";
+import { toSearchParams } from "@/lib/proposal-query-params";
+import { exportProposalsCsv, exportProposalsXlsx, exportProposalsPdf } from "@/lib/proposal-export";
+import {
+  PAGE_SIZE,
+  ProposalFilters,
+  ProposalQuery,
+  SortField,
+  fetchAllProposals,
+} from "@/lib/proposals-api";
+import { getDaysSinceFollowUp, getFollowUpBand, followUpBandIcons } from "@/lib/follow-up-bands";
+import { FollowUpBand } from "@/types/follow-up-band";
+import { OrganizationMember } from "@/types/organization";
+import { usePermissions } from "@/hooks/use-permissions";
+import { isOpenStatus, proposalStatuses } from "@/lib/proposal-status";
+import { toast } from "sonner";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -27,48 +57,89 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
+const ALL = "all"; // O Select não aceita valor vazio
+
 interface ProposalsTableProps {
-  proposals: Proposal[];
+  proposals: Proposal[]; // Página atual, já filtrada e ordenada pelo Supabase
+  totalCount: number;
+  query: ProposalQuery;
+  onQueryChange: (query: ProposalQuery) => void;
+  isFetching?: boolean;
   onEdit: (proposal: Proposal) => void;
   onDelete: (id: string) => void;
   onBulkStatusChange?: (ids: string[], newStatus: ProposalStatus) => void;
+  onBulkReassign?: (ids: string[], ownerId: string) => void;
+  members: OrganizationMember[]; // Responsáveis possíveis (coluna, filtro e reatribuição)
+  highlightedIds?: Set<string>; // Alteradas agora há pouco por outro usuário
+  followUpBands: FollowUpBand[]; // Cores por tempo sem contato (configuráveis)
 }
 
-// ADICIONAMOS "clientName" AQUI NA LISTA DE ORDENAÇÃO
-type SortField = "status" | "lastFollowUp" | "expectedReturnDate" | "value" | "sentDate" | "clientName";
-type SortDirection = "asc" | "desc";
-
 export const ProposalsTable = ({
   proposals,
+  totalCount,
+  query,
+  onQueryChange,
+  isFetching,
   onEdit,
   onDelete,
   onBulkStatusChange,
+  onBulkReassign,
+  members,
+  highlightedIds,
+  followUpBands,
 }: ProposalsTableProps) => {
+  const permissions = usePermissions();
+
   // --- ESTADOS DE CONTROLE ---
-  const [searchTerm, setSearchTerm] = useState("");
   const [deleteId, setDeleteId] = useState<string | null>(null);
-  const [sortField, setSortField] = useState<SortField | null>(null);
-  const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
-
-  // --- ESTADOS DE PAGINAÇÃO E FILTROS ---
-  const [currentPage, setCurrentPage] = useState(1);
-  const itemsPerPage = 100; // Define 100 itens por página
   const [showFilters, setShowFilters] = useState(false);
-  
-  const [dateStart, setDateStart] = useState("");
-  const [dateEnd, setDateEnd] = useState("");
-  const [valueMin, setValueMin] = useState("");
-  const [valueMax, setValueMax] = useState("");
+
+  // Busca, filtros, ordenação e página ficam no pai, que consulta o Supabase
+  // Período, status e canal são os mesmos filtros do Dashboard
+  const { search: searchTerm, dateStart, dateEnd, valueMin, valueMax, status: statusFilter, sentVia, ownerId, sortField, sortDirection, page: currentPage } = query;
+  const itemsPerPage = PAGE_SIZE;
+  const detailSearch = toSearchParams(query).toString();
+
+  // Filtro vindo do Dashboard (clique num card) abre o painel para ficar visível
+  useEffect(() => {
+    if (statusFilter || sentVia) setShowFilters(true);
+  }, [statusFilter, sentVia]);
+
+  // Qualquer mudança de filtro volta para a primeira página
+  const setFilter = (field: keyof ProposalFilters, value: string) => {
+    onQueryChange({ ...query, [field]: value, page: 1 });
+    setSelectedIds([]);
+  };
+
+  const setCurrentPage = (page: number) => {
+    onQueryChange({ ...query, page });
+    setSelectedIds([]);
+  };
 
   // --- FUNÇÕES AUXILIARES ---
   const getStatusBadge = (status: ProposalStatus) => {
     const statusConfig = {
+      draft: {
+        label: "Rascunho",
+        variant: "outline" as const,
+        className: "border-dashed border-slate-400 text-slate-500 font-medium bg-white/50",
+      },
+      sent: {
+        label: "Enviada",
+        variant: "outline" as const,
+        className: "border-sky-500 text-sky-700 font-medium bg-sky-50",
+      },
       pending: {
         label: "Aguardando",
         variant: "outline" as const,
         className: "border-slate-400 text-slate-600 font-medium bg-white/50",
       },
+      negotiating: {
+        label: "Em negociação",
+        variant: "outline" as const,
+        className: "border-amber-500 text-amber-700 font-medium bg-amber-50",
+      },
       approved: {
         label: "Aprovada",
         variant: "outline" as const,
@@ -79,6 +150,16 @@ export const ProposalsTable = ({
         variant: "outline" as const,
         className: "border-red-400 text-red-600 font-medium bg-red-50",
       },
+      expired: {
+        label: "Expirada",
+        variant: "outline" as const,
+        className: "border-orange-400 text-orange-700 font-medium bg-orange-50",
+      },
+      cancelled: {
+        label: "Cancelada",
+        variant: "outline" as const,
+        className: "border-slate-300 text-slate-400 font-medium bg-slate-50 line-through",
+      },
     };
     const config = statusConfig[status];
     return (
@@ -100,93 +181,32 @@ export const ProposalsTable = ({
     }).format(value);
   };
 
-  const getDaysSinceFollowUp = (date: Date) => {
-    const today = new Date();
-    const diffTime = Math.abs(today.getTime() - date.getTime());
-    return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  };
-
-  const getFollowUpStyle = (lastFollowUp: Date, status: ProposalStatus) => {
-    if (status !== 'pending') return "";
-    const days = getDaysSinceFollowUp(lastFollowUp);
-    if (days <= 15) return "bg-[#E4F4F0] text-[#25515c] hover:bg-[#d5ebe5]";
-    else if (days <= 30) return "bg-[#CBEAE2] text-[#0e6e7c] hover:bg-[#bce0d6]";
-    else if (days <= 90) return "bg-[#E5F2F6] text-[#25515c] hover:bg-[#dcebf0]";
-    else return "bg-[#D8E3E6] text-[#25515c] hover:bg-[#cedce0]";
-  };
+  const getOwnerName = (id?: string) =>
+    id ? members.find((m) => m.userId === id)?.name ?? "Ex-membro" : "-";
 
-  const getFollowUpIcon = (days: number) => {
-    if (days > 90) return <AlertTriangle className="h-4 w-4 text-[#25515c] inline mr-1" />;
-    if (days > 30) return <AlertCircle className="h-4 w-4 text-[#25515c] inline mr-1" />;
-    return null;
+  const renderFollowUpIcon = (band: FollowUpBand) => {
+    const Icon = band.icon && followUpBandIcons[band.icon];
+    return Icon ? <Icon className="h-4 w-4 text-[#25515c] inline mr-1" /> : null;
   };
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
-      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+      onQueryChange({ ...query, sortDirection: sortDirection === "asc" ? "desc" : "asc", page: 1 });
     } else {
-      setSortField(field);
-      setSortDirection("asc");
+      onQueryChange({ ...query, sortField: field, sortDirection: "asc", page: 1 });
     }
   };
 
-  // --- LÓGICA DE FILTRAGEM ---
-  const filteredProposals = proposals.filter((proposal) => {
-    const matchesSearch = proposal.clientName.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    let matchesDate = true;
-    if (dateStart) {
-      matchesDate = matchesDate && new Date(proposal.sentDate) >= new Date(dateStart);
-    }
-    if (dateEnd) {
-      matchesDate = matchesDate && new Date(proposal.sentDate) <= new Date(dateEnd);
-    }
-
-    let matchesValue = true;
-    if (valueMin) {
-      matchesValue = matchesValue && proposal.value >= Number(valueMin);
-    }
-    if (valueMax) {
-      matchesValue = matchesValue && proposal.value <= Number(valueMax);
-    }
-
-    return matchesSearch && matchesDate && matchesValue;
-  });
-
-  // --- LÓGICA DE ORDENAÇÃO ---
-  const sortedProposals = [...filteredProposals].sort((a, b) => {
-    if (!sortField) return 0;
-    let comparison = 0;
-    
-    if (sortField === "status") {
-      const statusOrder = { pending: 0, approved: 1, rejected: 2 };
-      comparison = statusOrder[a.status] - statusOrder[b.status];
-    } else if (sortField === "lastFollowUp") {
-      comparison = a.lastFollowUp.getTime() - b.lastFollowUp.getTime();
-    } else if (sortField === "expectedReturnDate") {
-      const aDate = a.expectedReturnDate?.getTime() ?? Infinity;
-      const bDate = b.expectedReturnDate?.getTime() ?? Infinity;
-      comparison = aDate - bDate;
-    } else if (sortField === "value") {
-      comparison = a.value - b.value;
-    } else if (sortField === "sentDate") {
-      comparison = a.sentDate.getTime() - b.sentDate.getTime();
-    } else if (sortField === "clientName") {
-      // ORDENAÇÃO DE A-Z PARA CLIENTES
-      comparison = a.clientName.localeCompare(b.clientName);
-    }
-    
-    return sortDirection === "asc" ? comparison : -comparison;
-  });
-
   // --- PAGINAÇÃO ---
-  const totalPages = Math.ceil(sortedProposals.length / itemsPerPage);
+  const totalPages = Math.ceil(totalCount / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedProposals = sortedProposals.slice(startIndex, startIndex + itemsPerPage);
+  const paginatedProposals = proposals;
+  // Só entram na seleção as que o papel do usuário permite alterar (o RLS ignoraria as outras)
+  const editableProposals = paginatedProposals.filter(permissions.canEdit);
 
   const toggleSelectAll = (checked: boolean) => {
     if (checked) {
-      setSelectedIds(paginatedProposals.map((p) => p.id));
+      setSelectedIds(editableProposals.map((p) => p.id));
     } else {
       setSelectedIds([]);
     }
@@ -200,6 +220,23 @@ export const ProposalsTable = ({
     }
   };
 
+  // Exporta exatamente o que está na tela: busca, filtros e ordenação (todas as páginas)
+  const handleExport = async (format: "csv" | "xlsx" | "pdf") => {
+    if (totalCount === 0) {
+      toast.info("Nenhuma proposta para exportar.");
+      return;
+    }
+    try {
+      const sortedProposals = await fetchAllProposals(query);
+      if (format === "csv") exportProposalsCsv(sortedProposals);
+      else if (format === "xlsx") await exportProposalsXlsx(sortedProposals);
+      else await exportProposalsPdf(sortedProposals);
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao exportar.");
+    }
+  };
+
   const executeBulkAction = (newStatus: ProposalStatus) => {
     if (onBulkStatusChange && selectedIds.length > 0) {
       onBulkStatusChange(selectedIds, newStatus);
@@ -207,6 +244,13 @@ export const ProposalsTable = ({
     }
   };
 
+  const executeBulkReassign = (newOwnerId: string) => {
+    if (onBulkReassign && selectedIds.length > 0) {
+      onBulkReassign(selectedIds, newOwnerId);
+      setSelectedIds([]);
+    }
+  };
+
   return (
     <>
       <Card className="p-6 border-slate-200 shadow-sm space-y-4">
@@ -219,8 +263,7 @@ export const ProposalsTable = ({
                 placeholder="Buscar por cliente..."
                 value={searchTerm}
                 onChange={(e) => {
-                  setSearchTerm(e.target.value);
-                  setCurrentPage(1);
+                  setFilter("search", e.target.value);
                 }}
                 className="pl-10 border-slate-300 focus:border-[#25515c] focus:ring-[#25515c]"
               />
@@ -234,10 +277,32 @@ export const ProposalsTable = ({
               <Filter className="h-4 w-4 mr-2" />
               Filtros
             </Button>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="border-slate-300">
+                  <Download className="h-4 w-4 mr-2" />
+                  Exportar
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onClick={() => handleExport("csv")}>CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("xlsx")}>Excel (XLSX)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("pdf")}>Relatório PDF</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <SavedViewsMenu
+              query={query}
+              onApply={(view) => {
+                onQueryChange(view);
+                setSelectedIds([]);
+              }}
+            />
           </div>
 
           {/* Ações em Massa */}
-          {selectedIds.length > 0 && (
+          {permissions.canBulkEdit && selectedIds.length > 0 && (
             <div className="flex items-center gap-2 bg-[#E4F4F0] p-2 rounded-md animate-in fade-in slide-in-from-top-1 border border-[#CBEAE2] w-full md:w-auto justify-center">
               <span className="text-sm font-medium px-2 text-[#25515c]">
                 {selectedIds.length} selecionados
@@ -252,32 +317,121 @@ export const ProposalsTable = ({
                <Button size="sm" variant="ghost" className="text-slate-700 hover:bg-slate-200" onClick={() => executeBulkAction('pending')}>
                 <Clock className="w-4 h-4 mr-1" /> Aguardar
               </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" variant="ghost" className="text-slate-700 hover:bg-slate-200">
+                    <MoreHorizontal className="w-4 h-4 mr-1" /> Outro status
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {proposalStatuses.map((status) => (
+                    <DropdownMenuItem key={status} onClick={() => executeBulkAction(status)}>
+                      {statusLabels[status]}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              {permissions.canAssign && members.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button size="sm" variant="ghost" className="text-slate-700 hover:bg-slate-200">
+                      <UserRound className="w-4 h-4 mr-1" /> Reatribuir
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {members.map((member) => (
+                      <DropdownMenuItem key={member.userId} onClick={() => executeBulkReassign(member.userId)}>
+                        {member.name}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
           )}
         </div>
 
         {/* ÁREA DE FILTROS AVANÇADOS (Escondida até clicar no botão Filtros) */}
         {showFilters && (
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 bg-slate-50 rounded-lg border border-slate-200 animate-in slide-in-from-top-2">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-7 gap-4 p-4 bg-slate-50 rounded-lg border border-slate-200 animate-in slide-in-from-top-2">
             <div>
               <label className="text-xs font-semibold text-slate-500 mb-1 block">Data Envio (De)</label>
-              <Input type="date" value={dateStart} onChange={(e) => setDateStart(e.target.value)} className="bg-white" />
+              <Input type="date" value={dateStart} onChange={(e) => setFilter("dateStart", e.target.value)} className="bg-white" />
             </div>
             <div>
               <label className="text-xs font-semibold text-slate-500 mb-1 block">Data Envio (Até)</label>
-              <Input type="date" value={dateEnd} onChange={(e) => setDateEnd(e.target.value)} className="bg-white" />
+              <Input type="date" value={dateEnd} onChange={(e) => setFilter("dateEnd", e.target.value)} className="bg-white" />
             </div>
             <div>
               <label className="text-xs font-semibold text-slate-500 mb-1 block">Valor Mín (R$)</label>
-              <Input type="number" placeholder="0.00" value={valueMin} onChange={(e) => setValueMin(e.target.value)} className="bg-white" />
+              <Input type="number" placeholder="0.00" value={valueMin} onChange={(e) => setFilter("valueMin", e.target.value)} className="bg-white" />
             </div>
             <div>
               <label className="text-xs font-semibold text-slate-500 mb-1 block">Valor Máx (R$)</label>
-              <Input type="number" placeholder="0.00" value={valueMax} onChange={(e) => setValueMax(e.target.value)} className="bg-white" />
+              <Input type="number" placeholder="0.00" value={valueMax} onChange={(e) => setFilter("valueMax", e.target.value)} className="bg-white" />
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-500 mb-1 block">Status</label>
+              <Select value={statusFilter || ALL} onValueChange={(value) => setFilter("status", value === ALL ? "" : value)}>
+                <SelectTrigger className="bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos</SelectItem>
+                  <SelectItem value="open">Em aberto</SelectItem>
+                  {proposalStatuses.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {statusLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-500 mb-1 block">Enviado por</label>
+              <Select value={sentVia || ALL} onValueChange={(value) => setFilter("sentVia", value === ALL ? "" : value)}>
+                <SelectTrigger className="bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos</SelectItem>
+                  {Object.entries(channelLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-500 mb-1 block">Responsável</label>
+              <Select value={ownerId || ALL} onValueChange={(value) => setFilter("ownerId", value === ALL ? "" : value)}>
+                <SelectTrigger className="bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.userId} value={member.userId}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-            <div className="md:col-span-4 flex justify-end">
+            <div className="md:col-span-3 lg:col-span-7 flex justify-end">
               <Button variant="ghost" size="sm" onClick={() => {
-                setDateStart(""); setDateEnd(""); setValueMin(""); setValueMax("");
+                onQueryChange({
+                  ...query,
+                  dateStart: "",
+                  dateEnd: "",
+                  valueMin: "",
+                  valueMax: "",
+                  status: "",
+                  sentVia: "",
+                  ownerId: "",
+                  page: 1,
+                });
               }} className="text-slate-500 text-xs hover:text-red-500">
                 Limpar Filtros
               </Button>
@@ -286,7 +440,7 @@ export const ProposalsTable = ({
         )}
 
         {/* TABELA */}
-        <div className="rounded-md border border-slate-200 overflow-hidden">
+        <div className={`rounded-md border border-slate-200 overflow-hidden transition-opacity ${isFetching ? "opacity-60" : ""}`}>
           <Table>
             <TableHeader className="bg-slate-50">
               <TableRow className="border-b-slate-200 hover:bg-slate-50">
@@ -294,7 +448,8 @@ export const ProposalsTable = ({
                   <input 
                     type="checkbox"
                     className="h-4 w-4 rounded border-gray-300 text-[#25515c] focus:ring-[#25515c]"
-                    checked={paginatedProposals.length > 0 && selectedIds.length === paginatedProposals.length}
+                    checked={editableProposals.length > 0 && selectedIds.length === editableProposals.length}
+                    disabled={!permissions.canBulkEdit || editableProposals.length === 0}
                     onChange={(e) => toggleSelectAll(e.target.checked)}
                   />
                 </TableHead>
@@ -308,6 +463,7 @@ export const ProposalsTable = ({
                   Data Envio <ArrowUpDown className="h-3 w-3 inline" />
                 </TableHead>
                 <TableHead className="text-slate-700 font-bold">Via</TableHead>
+                <TableHead className="text-slate-700 font-bold">Responsável</TableHead>
                 <TableHead className="text-slate-700 font-bold cursor-pointer hover:text-[#25515c]" onClick={() => handleSort("value")}>
                   Valor <ArrowUpDown className="h-3 w-3 inline" />
                 </TableHead>
@@ -333,45 +489,65 @@ export const ProposalsTable = ({
             <TableBody>
               {paginatedProposals.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={9} className="text-center py-12 text-slate-500">
+                  <TableCell colSpan={10} className="text-center py-12 text-slate-500">
                     Nenhuma proposta encontrada com os filtros atuais.
                   </TableCell>
                 </TableRow>
               ) : (
                 paginatedProposals.map((proposal) => {
                   const isSelected = selectedIds.includes(proposal.id);
-                  const followUpStyle = getFollowUpStyle(proposal.lastFollowUp, proposal.status);
+                  const canEdit = permissions.canEdit(proposal);
+                  const isHighlighted = highlightedIds?.has(proposal.id);
                   const daysSince = getDaysSinceFollowUp(proposal.lastFollowUp);
+                  const band = getFollowUpBand(daysSince, followUpBands);
+                  const showBand = isOpenStatus(proposal.status) && !isSelected && !isHighlighted;
                   
                   const rowClassName = isSelected 
                     ? "bg-[#25515c]/10 border-l-4 border-l-[#25515c]" 
-                    : `${followUpStyle} border-b border-white/50`;
+                    : isHighlighted
+                      ? "bg-amber-100 border-b border-white/50 transition-colors duration-1000"
+                      : `${showBand ? "text-[#25515c] hover:bg-transparent hover:brightness-95" : ""} border-b border-white/50 transition-colors duration-1000`;
 
                   return (
-                    <TableRow key={proposal.id} className={rowClassName}>
+                    <TableRow
+                      key={proposal.id}
+                      className={rowClassName}
+                      style={showBand ? { backgroundColor: band.color } : undefined}
+                    >
                       <TableCell>
                         <input 
                           type="checkbox"
                           className="h-4 w-4 rounded border-gray-300 text-[#25515c] focus:ring-[#25515c]"
                           checked={isSelected}
+                          disabled={!permissions.canBulkEdit || !canEdit}
+                          title={canEdit ? undefined : "Sem permissão para alterar esta proposta"}
                           onChange={() => toggleSelectOne(proposal.id)}
                         />
                       </TableCell>
-                      <TableCell className="font-semibold">{proposal.clientName}</TableCell>
+                      <TableCell className="font-semibold">
+                        {proposal.clientId ? (
+                          <Link to={`/clients/${proposal.clientId}`} className="hover:underline">
+                            {proposal.clientName}
+                          </Link>
+                        ) : (
+                          proposal.clientName
+                        )}
+                      </TableCell>
                       <TableCell>{formatDate(proposal.sentDate)}</TableCell>
-                      <TableCell className="text-sm">{proposal.sentVia || "-"}</TableCell>
+                      <TableCell className="text-sm">{proposal.sentVia ? channelLabels[proposal.sentVia] : "-"}</TableCell>
+                      <TableCell className="text-sm">{getOwnerName(proposal.ownerId)}</TableCell>
                       <TableCell className="font-medium">{formatCurrency(proposal.value)}</TableCell>
                       <TableCell>{getStatusBadge(proposal.status)}</TableCell>
                       
                       <TableCell>
                         <div className="flex flex-col">
                           <div className="flex items-center">
-                            {proposal.status === 'pending' && getFollowUpIcon(daysSince)}
+                            {isOpenStatus(proposal.status) && renderFollowUpIcon(band)}
                             <span className="font-medium">{formatDate(proposal.lastFollowUp)}</span>
                           </div>
-                          {proposal.status === 'pending' && (
+                          {isOpenStatus(proposal.status) && (
                             <span className="text-[10px] opacity-80 font-bold uppercase tracking-wide">
-                              {daysSince} dias
+                              {daysSince} dias · {band.label}
                             </span>
                           )}
                         </div>
@@ -383,12 +559,22 @@ export const ProposalsTable = ({
 
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-1">
-                          <Button variant="ghost" size="icon" onClick={() => onEdit(proposal)} className="hover:bg-white/50">
-                            <Edit className="h-4 w-4 opacity-70" />
-                          </Button>
-                          <Button variant="ghost" size="icon" onClick={() => setDeleteId(proposal.id)} className="hover:bg-red-100 hover:text-red-600">
-                            <Trash2 className="h-4 w-4 opacity-70" />
+                          {/* O detalhe recebe a consulta atual para navegar na mesma ordem */}
+                          <Button variant="ghost" size="icon" asChild title="Abrir proposta" className="hover:bg-white/50">
+                            <Link to={{ pathname: `/proposals/${proposal.id}`, search: detailSearch }}>
+                              <Eye className="h-4 w-4 opacity-70" />
+                            </Link>
                           </Button>
+                          {canEdit && (
+                            <Button variant="ghost" size="icon" onClick={() => onEdit(proposal)} className="hover:bg-white/50">
+                              <Edit className="h-4 w-4 opacity-70" />
+                            </Button>
+                          )}
+                          {permissions.canDelete(proposal) && (
+                            <Button variant="ghost" size="icon" onClick={() => setDeleteId(proposal.id)} className="hover:bg-red-100 hover:text-red-600">
+                              <Trash2 className="h-4 w-4 opacity-70" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -401,14 +587,15 @@ export const ProposalsTable = ({
 
         {/* RODAPÉ DE PAGINAÇÃO */}
         <div className="flex items-center justify-between pt-4 border-t border-slate-100">
-          <div className="text-sm text-slate-500">
-            Mostrando {startIndex + 1} até {Math.min(startIndex + itemsPerPage, sortedProposals.length)} de {sortedProposals.length} propostas
+          <div className="flex items-center gap-2 text-sm text-slate-500">
+            {isFetching && <Loader2 className="h-4 w-4 animate-spin" />}
+            Mostrando {totalCount === 0 ? 0 : startIndex + 1} até {Math.min(startIndex + itemsPerPage, totalCount)} de {totalCount} propostas
           </div>
           <div className="flex items-center gap-2">
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+              onClick={() => setCurrentPage(Math.max(currentPage - 1, 1))}
               disabled={currentPage === 1}
               className="border-slate-200"
             >
@@ -420,7 +607,7 @@ export const ProposalsTable = ({
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+              onClick={() => setCurrentPage(Math.min(currentPage + 1, totalPages))}
               disabled={currentPage === totalPages || totalPages === 0}
               className="border-slate-200"
             >
@@ -435,7 +622,7 @@ export const ProposalsTable = ({
           <AlertDialogHeader>
             <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir esta proposta?
+              A proposta vai para a lixeira, de onde pode ser restaurada.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
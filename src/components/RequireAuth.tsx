@@ -0,0 +1,32 @@
+import { Navigate, Outlet } from "react-router-dom";
+import { useSession } from "@/hooks/use-session";
+import { useMfaStatus } from "@/hooks/use-mfa";
+import { useCurrentOrganization } from "@/hooks/use-organizations";
+
+interface RequireAuthProps {
+  // A tela de segurança é onde se ativa o MFA exigido pela organização
+  allowMissingFactor?: boolean;
+}
+
+/**
+ * Layout das rotas restritas: sem sessão vai para o login; com MFA ativado e só a senha conferida,
+ * o login pede o código; na organização que exige MFA, quem ainda não ativou vai para a tela de
+ * segurança.
+ * O RLS já esconde os dados nesses casos; aqui a tela explica o porquê em vez de aparecer vazia.
+ */
+export const RequireAuth = ({ allowMissingFactor = false }: RequireAuthProps) => {
+  const { session, isLoading } = useSession();
+  const mfaQuery = useMfaStatus(session?.user.id);
+  const { organization, isLoading: organizationLoading } = useCurrentOrganization(!!session);
+
+  if (isLoading) return null;
+  if (!session) return <Navigate to="/login" replace />;
+  if (mfaQuery.isPending || organizationLoading) return null;
+
+  if (mfaQuery.data?.needsChallenge) return <Navigate to="/login" replace />;
+  if (!allowMissingFactor && organization?.requireMfa && !mfaQuery.data?.factorId) {
+    return <Navigate to="/security" replace />;
+  }
+
+  return <Outlet />;
+};
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Bookmark, Link2, Loader2, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { ProposalQuery } from "@/lib/proposals-api";
+import { fromSearchParams, toSearchParams } from "@/lib/proposal-query-params";
+import { useDeleteView, useSaveView, useSavedViews } from "@/hooks/use-saved-views";
+
+interface SavedViewsMenuProps {
+  query: ProposalQuery;
+  onApply: (query: ProposalQuery) => void;
+}
+
+export const SavedViewsMenu = ({ query, onApply }: SavedViewsMenuProps) => {
+  const viewsQuery = useSavedViews();
+  const saveView = useSaveView();
+  const deleteView = useDeleteView();
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const views = viewsQuery.data ?? [];
+  // A visão guarda filtros e ordenação; sempre abre na primeira página
+  const currentQueryString = toSearchParams({ ...query, page: 1 }).toString();
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      await saveView.mutateAsync({ name, queryString: currentQueryString });
+      toast.success(`Visão "${name.trim()}" salva!`);
+      setIsSaveOpen(false);
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao salvar visão.");
+    }
+  };
+
+  const handleDelete = async (id: string, viewName: string) => {
+    try {
+      await deleteView.mutateAsync(id);
+      toast.success(`Visão "${viewName}" excluída.`);
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao excluir visão.");
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link copiado!");
+    } catch (error) {
+      console.error(error);
+      toast.error("Não foi possível copiar o link.");
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="border-slate-300">
+            <Bookmark className="h-4 w-4 mr-2" />
+            Visões
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel>Visões salvas</DropdownMenuLabel>
+          {views.length === 0 ? (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">Nenhuma visão salva.</p>
+          ) : (
+            views.map((view) => (
+              <DropdownMenuItem
+                key={view.id}
+                onClick={() => onApply(fromSearchParams(new URLSearchParams(view.queryString)))}
+                className={`group justify-between ${view.queryString === currentQueryString ? "font-semibold" : ""}`}
+              >
+                <span className="truncate">{view.name}</span>
+                <button
+                  type="button"
+                  title="Excluir visão"
+                  className="opacity-0 group-hover:opacity-100 text-destructive"
+                  onClick={(e) => {
+                    e.stopPropagation(); // Não aplica a visão que está sendo excluída
+                    handleDelete(view.id, view.name);
+                  }}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => {
+              setName(views.find((view) => view.queryString === currentQueryString)?.name ?? "");
+              setIsSaveOpen(true);
+            }}
+          >
+            <Save className="h-4 w-4 mr-2" /> Salvar visão atual...
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleCopyLink}>
+            <Link2 className="h-4 w-4 mr-2" /> Copiar link desta visão
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Salvar visão</DialogTitle>
+            <DialogDescription>
+              Guarda a busca, os filtros e a ordenação atuais. Um nome já usado substitui a visão anterior.
+            </DialogDescription>
+          </DialogHeader>
+          <form id="save-view-form" onSubmit={handleSave}>
+            <Label htmlFor="view-name">Nome</Label>
+            <Input
+              id="view-name"
+              placeholder="Ex: Aguardando acima de R$ 50 mil"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1"
+              autoFocus
+            />
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSaveOpen(false)}>Cancelar</Button>
+            <Button type="submit" form="save-view-form" disabled={!name.trim() || saveView.isPending} className="gap-2">
+              {saveView.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
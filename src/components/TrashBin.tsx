@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { Proposal, statusLabels } from "@/types/proposal";
+import { formatCurrency, formatDate } from "@/lib/format";
+import { getDaysUntilPurge } from "@/lib/proposal-trash";
+
+interface TrashBinProps {
+  proposals: Proposal[]; // Só as da lixeira (ver fetchDeletedProposals)
+  retentionDays: number;
+  onRestore: (ids: string[]) => void;
+  onPurge: (ids: string[]) => void;
+}
+
+export const TrashBin = ({ proposals, retentionDays, onRestore, onPurge }: TrashBinProps) => {
+  // Propostas esperando confirmação da exclusão definitiva
+  const [purgeIds, setPurgeIds] = useState<string[] | null>(null);
+
+  if (proposals.length === 0) {
+    return (
+      <Card className="p-12 flex flex-col items-center gap-2 text-slate-500 border-slate-200 shadow-sm">
+        <Trash2 className="h-10 w-10 text-primary" />
+        <p className="font-medium">A lixeira está vazia.</p>
+        <p className="text-sm">Propostas excluídas ficam aqui por {retentionDays} dias antes de sumirem de vez.</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Propostas excluídas são apagadas definitivamente após {retentionDays} dias na lixeira.
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setPurgeIds(proposals.map((p) => p.id))}
+          className="gap-1 text-red-700 hover:bg-red-50"
+        >
+          <Trash2 className="h-4 w-4" /> Esvaziar lixeira
+        </Button>
+      </div>
+
+      {proposals.map((proposal) => {
+        const daysLeft = proposal.deletedAt ? getDaysUntilPurge(proposal.deletedAt, retentionDays) : retentionDays;
+
+        return (
+          <Card
+            key={proposal.id}
+            className="p-4 border-slate-200 shadow-sm flex flex-col md:flex-row md:items-center gap-4"
+          >
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold truncate">{proposal.clientName}</span>
+                <span className="text-sm text-muted-foreground">{formatCurrency(proposal.value)}</span>
+                <span className="text-xs text-muted-foreground">· {statusLabels[proposal.status]}</span>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Excluída em {formatDate(proposal.deletedAt)} ·{" "}
+                {daysLeft === 0 ? "será apagada hoje" : `apagada em ${daysLeft} ${daysLeft === 1 ? "dia" : "dias"}`}
+              </p>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" onClick={() => onRestore([proposal.id])} className="gap-1">
+                <RotateCcw className="h-4 w-4" /> Restaurar
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPurgeIds([proposal.id])}
+                className="gap-1 text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4" /> Excluir definitivamente
+              </Button>
+            </div>
+          </Card>
+        );
+      })}
+
+      <AlertDialog open={!!purgeIds} onOpenChange={(open) => !open && setPurgeIds(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir definitivamente?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeIds?.length === 1
+                ? "A proposta, seus follow-ups e anexos serão apagados. Não dá para desfazer."
+                : `${purgeIds?.length} propostas, com seus follow-ups e anexos, serão apagadas. Não dá para desfazer.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (purgeIds) onPurge(purgeIds);
+                setPurgeIds(null);
+              }}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
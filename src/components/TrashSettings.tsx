@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+import { useSaveUserSettings, useUserSettings } from "@/hooks/use-user-settings";
+import { DEFAULT_TRASH_RETENTION_DAYS } from "@/lib/proposal-trash";
+
+const MAX_RETENTION_DAYS = 365; // Mesmo limite do CHECK em user_settings
+
+export const TrashSettings = () => {
+  const settingsQuery = useUserSettings();
+  const saveSettings = useSaveUserSettings();
+  const [days, setDays] = useState(String(DEFAULT_TRASH_RETENTION_DAYS));
+
+  useEffect(() => {
+    if (settingsQuery.data) setDays(String(settingsQuery.data.trashRetentionDays));
+  }, [settingsQuery.data]);
+
+  const handleSave = async () => {
+    const value = Number(days);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_RETENTION_DAYS) {
+      toast.error(`Informe um número de dias entre 1 e ${MAX_RETENTION_DAYS}.`);
+      return;
+    }
+
+    try {
+      await saveSettings.mutateAsync({ trashRetentionDays: value });
+      toast.success("Prazo da lixeira salvo!");
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao salvar configurações.");
+    }
+  };
+
+  return (
+    <Card className="p-6 border-slate-200 shadow-sm">
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold text-foreground">Lixeira</h2>
+        <p className="text-sm text-muted-foreground">
+          Propostas excluídas podem ser restauradas até serem apagadas definitivamente, uma vez por dia.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end justify-between gap-2">
+        <div className="max-w-xs">
+          <Label htmlFor="trash-retention-days">Apagar definitivamente após (dias)</Label>
+          <Input
+            id="trash-retention-days"
+            type="number"
+            min={1}
+            max={MAX_RETENTION_DAYS}
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+        <Button onClick={handleSave} disabled={saveSettings.isPending} className="gap-2">
+          {saveSettings.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          Salvar
+        </Button>
+      </div>
+    </Card>
+  );
+};
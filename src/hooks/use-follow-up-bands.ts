@@ -0,0 +1,20 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchFollowUpBands, saveFollowUpBands } from "@/lib/follow-up-bands";
+
+export const followUpBandsKey = ["settings", "followUpBands"] as const;
+
+export const useFollowUpBands = (enabled = true) =>
+  useQuery({
+    queryKey: followUpBandsKey,
+    queryFn: fetchFollowUpBands,
+    enabled,
+  });
+
+export const useSaveFollowUpBands = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveFollowUpBands,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: followUpBandsKey }),
+  });
+};
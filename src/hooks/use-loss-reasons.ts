@@ -0,0 +1,20 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchLossReasons, saveLossReasons } from "@/lib/loss-reasons";
+
+export const lossReasonsKey = ["settings", "lossReasons"] as const;
+
+export const useLossReasons = (enabled = true) =>
+  useQuery({
+    queryKey: lossReasonsKey,
+    queryFn: fetchLossReasons,
+    enabled,
+  });
+
+export const useSaveLossReasons = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveLossReasons,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: lossReasonsKey }),
+  });
+};
@@ -0,0 +1,36 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { enrollTotp, fetchMfaStatus, unenrollTotp, verifyTotp } from "@/lib/mfa";
+
+export const mfaKeys = {
+  all: ["mfa"] as const,
+  status: (userId?: string) => [...mfaKeys.all, "status", ...(userId ? [userId] : [])] as const,
+};
+
+/** Por usuário: trocar de conta no mesmo navegador não reaproveita o status anterior. */
+export const useMfaStatus = (userId: string | undefined) =>
+  useQuery({
+    queryKey: mfaKeys.status(userId),
+    queryFn: fetchMfaStatus,
+    enabled: !!userId,
+  });
+
+export const useEnrollTotp = () => useMutation({ mutationFn: enrollTotp });
+
+export const useVerifyTotp = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: verifyTotp,
+    // Com a sessão em aal2 o RLS libera dados que antes vinham vazios: recarrega tudo
+    onSuccess: () => queryClient.invalidateQueries(),
+  });
+};
+
+export const useUnenrollTotp = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: unenrollTotp,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: mfaKeys.all }),
+  });
+};
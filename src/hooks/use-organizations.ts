@@ -0,0 +1,116 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { MembershipRole } from "@/types/organization";
+import {
+  addOrganizationMember,
+  fetchCurrentMembership,
+  fetchCurrentOrganizationId,
+  fetchOrganizationMembers,
+  fetchOrganizations,
+  inviteOrganizationMember,
+  removeOrganizationMember,
+  setOrganizationMemberRole,
+  setOrganizationRequireMfa,
+  switchOrganization,
+} from "@/lib/organizations";
+
+export const organizationKeys = {
+  all: ["organizations"] as const,
+  list: () => [...organizationKeys.all, "list"] as const,
+  current: () => [...organizationKeys.all, "current"] as const,
+  membership: () => [...organizationKeys.all, "membership"] as const,
+  members: () => [...organizationKeys.all, "members"] as const,
+};
+
+export const useOrganizations = (enabled = true) =>
+  useQuery({
+    queryKey: organizationKeys.list(),
+    queryFn: fetchOrganizations,
+    enabled,
+  });
+
+export const useCurrentOrganizationId = (enabled = true) =>
+  useQuery({
+    queryKey: organizationKeys.current(),
+    queryFn: fetchCurrentOrganizationId,
+    enabled,
+  });
+
+export const useCurrentMembership = (enabled = true) =>
+  useQuery({
+    queryKey: organizationKeys.membership(),
+    queryFn: fetchCurrentMembership,
+    enabled,
+  });
+
+/** Organização atual com os dados completos (nome, MFA obrigatório). */
+export const useCurrentOrganization = (enabled = true) => {
+  const organizationsQuery = useOrganizations(enabled);
+  const currentQuery = useCurrentOrganizationId(enabled);
+
+  return {
+    organization: organizationsQuery.data?.find((o) => o.id === currentQuery.data),
+    isLoading: organizationsQuery.isPending || currentQuery.isPending,
+  };
+};
+
+export const useOrganizationMembers = (enabled = true) =>
+  useQuery({
+    queryKey: organizationKeys.members(),
+    queryFn: fetchOrganizationMembers,
+    enabled,
+  });
+
+export const useAddOrganizationMember = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ email, role }: { email: string; role: MembershipRole }) => addOrganizationMember(email, role),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: organizationKeys.members() }),
+  });
+};
+
+// O convidado só entra na lista de membros ao aceitar o convite (e-mail confirmado)
+export const useInviteOrganizationMember = () =>
+  useMutation({
+    mutationFn: ({ email, role }: { email: string; role: MembershipRole }) => inviteOrganizationMember(email, role),
+  });
+
+export const useSetOrganizationMemberRole = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: MembershipRole }) => setOrganizationMemberRole(userId, role),
+    // O próprio admin pode ter mudado de papel
+    onSettled: () => queryClient.invalidateQueries({ queryKey: organizationKeys.all }),
+  });
+};
+
+export const useRemoveOrganizationMember = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: removeOrganizationMember,
+    // As propostas do membro ficam sem responsável (e quem saiu da organização muda de organização atual)
+    onSettled: () => queryClient.invalidateQueries(),
+  });
+};
+
+export const useSetRequireMfa = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ organizationId, requireMfa }: { organizationId: string; requireMfa: boolean }) =>
+      setOrganizationRequireMfa(organizationId, requireMfa),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: organizationKeys.list() }),
+  });
+};
+
+export const useSwitchOrganization = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: switchOrganization,
+    // Quase tudo depende da organização atual (propostas, totais, auditoria...): recarrega do zero
+    onSuccess: () => queryClient.resetQueries(),
+  });
+};
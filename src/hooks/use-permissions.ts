@@ -0,0 +1,31 @@
+import { Proposal } from "@/types/proposal";
+import { useCurrentMembership } from "@/hooks/use-organizations";
+
+/**
+ * O que o usuário pode fazer na organização atual, espelhando o RLS (ver can_edit_proposal).
+ * Enquanto o papel carrega, tudo fica bloqueado.
+ */
+export const usePermissions = (enabled = true) => {
+  const membershipQuery = useCurrentMembership(enabled);
+  const { userId, role } = membershipQuery.data ?? {};
+
+  const isAdmin = role === "admin";
+  const canCreate = isAdmin || role === "seller";
+  // Só admin escolhe ou troca o responsável; o vendedor cria propostas em seu próprio nome
+  const canAssign = isAdmin;
+  const canEdit = (proposal: Pick<Proposal, "ownerId">) =>
+    isAdmin || (role === "seller" && !!proposal.ownerId && proposal.ownerId === userId);
+
+  return {
+    userId,
+    role,
+    isLoading: membershipQuery.isPending,
+    isAdmin,
+    canCreate,
+    canEdit,
+    canDelete: canEdit,
+    // Vendedores também usam as ações em massa, mas só selecionam as propostas que podem editar
+    canBulkEdit: canCreate,
+    canAssign,
+  };
+};
@@ -0,0 +1,34 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { deleteAttachment, fetchAttachments, uploadAttachment } from "@/lib/proposal-attachments";
+
+export const attachmentKeys = {
+  all: ["attachments"] as const,
+  list: (proposalId: string) => [...attachmentKeys.all, proposalId] as const,
+};
+
+export const useAttachments = (proposalId: string | undefined) =>
+  useQuery({
+    queryKey: attachmentKeys.list(proposalId ?? ""),
+    queryFn: () => fetchAttachments(proposalId!),
+    enabled: !!proposalId,
+  });
+
+export const useUploadAttachment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: uploadAttachment,
+    onSettled: (_data, _error, { proposalId }) =>
+      queryClient.invalidateQueries({ queryKey: attachmentKeys.list(proposalId) }),
+  });
+};
+
+export const useDeleteAttachment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteAttachment,
+    onSettled: (_data, _error, attachment) =>
+      queryClient.invalidateQueries({ queryKey: attachmentKeys.list(attachment.proposalId) }),
+  });
+};
@@ -0,0 +1,24 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { AuditFilters, fetchAuditLog, fetchProposalAudit } from "@/lib/proposal-audit";
+import { proposalKeys } from "@/hooks/use-proposals";
+
+// Dentro de proposalKeys.audit(): toda mutação de propostas invalida a auditoria de uma vez
+export const auditKeys = {
+  proposal: (proposalId: string) => [...proposalKeys.audit(), "proposal", proposalId] as const,
+  log: (filters: AuditFilters, page: number) => [...proposalKeys.audit(), "log", filters, page] as const,
+};
+
+export const useProposalAudit = (proposalId: string | undefined, enabled = true) =>
+  useQuery({
+    queryKey: auditKeys.proposal(proposalId ?? ""),
+    queryFn: () => fetchProposalAudit(proposalId!),
+    enabled: enabled && !!proposalId,
+  });
+
+export const useAuditLog = (filters: AuditFilters, page: number, enabled = true) =>
+  useQuery({
+    queryKey: auditKeys.log(filters, page),
+    queryFn: () => fetchAuditLog(filters, page),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
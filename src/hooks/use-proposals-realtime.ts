@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Proposal } from "@/types/proposal";
+import { Tables } from "@/integrations/supabase/types";
+import { toProposal } from "@/lib/proposal-mappers";
+import { ProposalsPage, applyToProposalCaches, proposalKeys } from "@/hooks/use-proposals";
+import { useCurrentOrganizationId } from "@/hooks/use-organizations";
+
+const HIGHLIGHT_DURATION = 4000;
+
+// Dados derivados das propostas: ficam marcados como desatualizados a cada alteração
+const derivedKeys = [
+  proposalKeys.totals(),
+  proposalKeys.owners(),
+  proposalKeys.losses(),
+  proposalKeys.forecast(),
+  proposalKeys.monthly(),
+  proposalKeys.aging(),
+  proposalKeys.inbox(),
+  proposalKeys.audit(),
+];
+
+/**
+ * Mantém a lista sincronizada com alterações feitas em outras sessões.
+ * Aplica updates e deletes direto no cache do React Query (inserts recarregam as listas abertas)
+ * e devolve os ids alterados por outra pessoa, para a tabela destacar por alguns segundos.
+ */
+export const useProposalsRealtime = (session: Session | null) => {
+  const queryClient = useQueryClient();
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(new Set());
+  const userId = session?.user.id;
+  const { data: organizationId } = useCurrentOrganizationId(!!userId);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const timeouts: ReturnType<typeof setTimeout>[] = [];
+
+    const highlight = (id: string) => {
+      setHighlightedIds((ids) => new Set(ids).add(id));
+      timeouts.push(
+        setTimeout(() => {
+          setHighlightedIds((ids) => {
+            const next = new Set(ids);
+            next.delete(id);
+            return next;
+          });
+        }, HIGHLIGHT_DURATION)
+      );
+    };
+
+    const updatePages = (update: (page: ProposalsPage) => ProposalsPage) => {
+      queryClient.getQueriesData<ProposalsPage>({ queryKey: proposalKeys.lists() }).forEach(([key, page]) => {
+        if (page) queryClient.setQueryData(key, update(page));
+      });
+    };
+
+    const channel = supabase
+      .channel("proposals-changes")
+      .on<Tables<"proposals">>("postgres_changes", { event: "*", schema: "public", table: "proposals" }, (payload) => {
+        // A alteração feita nesta sessão já é invalidada pela própria mutação: aqui só fica marcada
+        // (para as outras abas do mesmo usuário), sem recarregar tudo uma segunda vez
+        const isOwn = payload.eventType !== "DELETE" && payload.new.updated_by === userId;
+        const refetchType = isOwn ? "none" : "active";
+
+        if (payload.eventType === "INSERT") {
+          const proposal = toProposal(payload.new);
+          // Nas listas, só a consulta sabe se a nova passa nos filtros e em que posição entra
+          // (recarregada abaixo); o quadro mostra todas
+          queryClient.setQueryData<Proposal[]>(proposalKeys.board(), (proposals) =>
+            proposals && !proposals.some((p) => p.id === proposal.id) ? [proposal, ...proposals] : proposals
+          );
+        } else if (payload.eventType === "UPDATE") {
+          const proposal = toProposal(payload.new);
+          applyToProposalCaches(queryClient, (proposals) =>
+            proposals.map((p) => (p.id === proposal.id ? proposal : p))
+          );
+          queryClient.setQueryData<Proposal | null>(proposalKeys.detail(proposal.id), (current) =>
+            current ? proposal : current
+          );
+          queryClient.invalidateQueries({ queryKey: proposalKeys.statusChanges(proposal.id), refetchType });
+        } else if (payload.eventType === "DELETE") {
+          const id = payload.old.id!;
+          updatePages((page) =>
+            page.proposals.some((p) => p.id === id)
+              ? { proposals: page.proposals.filter((p) => p.id !== id), totalCount: page.totalCount - 1 }
+              : page
+          );
+          applyToProposalCaches(queryClient, (proposals) => proposals.filter((p) => p.id !== id));
+        }
+
+        // Fora o insert, as outras páginas ficam marcadas como desatualizadas sem recarregar agora
+        queryClient.invalidateQueries({
+          queryKey: proposalKeys.lists(),
+          refetchType: payload.eventType === "INSERT" && !isOwn ? "active" : "none",
+        });
+        derivedKeys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey, refetchType }));
+
+        if (payload.eventType !== "DELETE" && !isOwn) {
+          highlight(payload.new.id);
+        }
+      })
+      .subscribe();
+
+    return () => {
+      timeouts.forEach(clearTimeout);
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+
+  // Lixeira: a proposta movida para a lixeira some do RLS e o UPDATE não chega pelo canal acima;
+  // o banco avisa por broadcast (ver broadcast_proposal_trash)
+  useEffect(() => {
+    if (!userId || !organizationId) return;
+
+    const channel = supabase
+      .channel(`proposals:${organizationId}`, { config: { private: true } })
+      .on("broadcast", { event: "trash" }, ({ payload }) => {
+        const { id, deleted } = payload as { id: string; deleted: boolean };
+        if (deleted) {
+          applyToProposalCaches(queryClient, (proposals) => proposals.filter((p) => p.id !== id));
+        }
+
+        // A restaurada volta na posição certa (e a contagem das páginas se acerta) só consultando de novo
+        queryClient.invalidateQueries({ queryKey: proposalKeys.lists() });
+        queryClient.invalidateQueries({ queryKey: proposalKeys.board() });
+        queryClient.invalidateQueries({ queryKey: proposalKeys.neighbors() });
+        queryClient.invalidateQueries({ queryKey: proposalKeys.detail(id) });
+        queryClient.invalidateQueries({ queryKey: proposalKeys.trash() });
+        derivedKeys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, organizationId, queryClient]);
+
+  return highlightedIds;
+};
@@ -0,0 +1,424 @@
+import { QueryClient, QueryKey, keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { LossDetails, Proposal, ProposalStatus } from "@/types/proposal";
+import { FollowUpBand } from "@/types/follow-up-band";
+import { canTransition } from "@/lib/proposal-status";
+import { buildPipelineForecast } from "@/lib/proposal-forecast";
+import { AnalyticsRange, buildMonthlyAnalytics, getRangeBounds } from "@/lib/proposal-analytics";
+import { fetchDeletedProposals, purgeProposals, restoreProposals } from "@/lib/proposal-trash";
+import {
+  ProposalQuery,
+  TotalsFilters,
+  createProposal,
+  defaultProposalQuery,
+  deleteProposal,
+  fetchAllProposals,
+  fetchFollowUpAging,
+  fetchInboxProposals,
+  fetchLossBreakdown,
+  fetchMonthlyStats,
+  fetchOwnerTotals,
+  fetchPipelineForecast,
+  fetchProposal,
+  fetchProposalNeighbors,
+  fetchProposalTotals,
+  fetchProposalsPage,
+  fetchStatusChanges,
+  reassignProposals,
+  registerContactToday,
+  snoozeProposal,
+  updateProposal,
+  updateProposalsStatus,
+} from "@/lib/proposals-api";
+
+export type ProposalsPage = Awaited<ReturnType<typeof fetchProposalsPage>>;
+
+export const proposalKeys = {
+  all: ["proposals"] as const,
+  lists: () => [...proposalKeys.all, "list"] as const,
+  list: (query: ProposalQuery) => [...proposalKeys.lists(), query] as const,
+  board: () => [...proposalKeys.all, "board"] as const,
+  details: () => [...proposalKeys.all, "detail"] as const,
+  detail: (id: string) => [...proposalKeys.details(), id] as const,
+  neighbors: (query?: ProposalQuery, id?: string) =>
+    [...proposalKeys.all, "neighbors", ...(query && id ? [query, id] : [])] as const,
+  audit: () => [...proposalKeys.all, "audit"] as const,
+  trash: () => [...proposalKeys.all, "trash"] as const,
+  statusChanges: (id?: string) => [...proposalKeys.all, "statusChanges", ...(id ? [id] : [])] as const,
+  totals: (filters?: TotalsFilters) => [...proposalKeys.all, "totals", ...(filters ? [filters] : [])] as const,
+  owners: (filters?: TotalsFilters) => [...proposalKeys.all, "owners", ...(filters ? [filters] : [])] as const,
+  inbox: (ageLimit?: number | null) => [...proposalKeys.all, "inbox", ...(ageLimit !== undefined ? [ageLimit] : [])] as const,
+  losses: () => [...proposalKeys.all, "losses"] as const,
+  forecast: () => [...proposalKeys.all, "forecast"] as const,
+  monthly: (range?: AnalyticsRange) => [...proposalKeys.all, "monthly", ...(range ? [range] : [])] as const,
+  aging: (bands?: FollowUpBand[]) => [...proposalKeys.all, "aging", ...(bands ? [bands] : [])] as const,
+};
+
+// --- CONSULTAS ---
+
+export const useProposals = (query: ProposalQuery, enabled = true) =>
+  useQuery({
+    queryKey: proposalKeys.list(query),
+    queryFn: () => fetchProposalsPage(query),
+    placeholderData: keepPreviousData, // Mantém a página anterior na tela enquanto a próxima carrega
+    enabled,
+  });
+
+export const useBoardProposals = (enabled = true) =>
+  useQuery({
+    queryKey: proposalKeys.board(),
+    queryFn: () => fetchAllProposals(defaultProposalQuery),
+    enabled,
+  });
+
+export const useProposal = (id: string | undefined, enabled = true) =>
+  useQuery({
+    queryKey: proposalKeys.detail(id ?? ""),
+    queryFn: () => fetchProposal(id!),
+    enabled: enabled && !!id,
+  });
+
+/** Vizinhas na ordem da tabela; query é a consulta que veio na URL do detalhe. */
+export const useProposalNeighbors = (query: ProposalQuery, id: string | undefined, enabled = true) =>
+  useQuery({
+    queryKey: proposalKeys.neighbors(query, id),
+    queryFn: () => fetchProposalNeighbors(query, id!),
+    enabled: enabled && !!id,
+  });
+
+export const useStatusChanges = (id: string | undefined, enabled = true) =>
+  useQuery({
+    queryKey: proposalKeys.statusChanges(id),
+    queryFn: () => fetchStatusChanges(id!),
+    enabled: enabled && !!id,
+  });
+
+export const useProposalTotals = (filters: TotalsFilters, enabled = true) =>
+  useQuery({
+    queryKey: proposalKeys.totals(filters),
+    queryFn: () => fetchProposalTotals(filters),
+    placeholderData: keepPreviousData, // Os cards não piscam ao trocar o filtro
+    enabled,
+  });
+
+export const useOwnerTotals = (filters: TotalsFilters, enabled = true) =>
+  useQuery({
+    queryKey: proposalKeys.owners(filters),
+    queryFn: () => fetchOwnerTotals(filters),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+
+export const useFollowUpAging = (bands: FollowUpBand[] | undefined, enabled = true) =>
+  useQuery({
+    queryKey: proposalKeys.aging(bands),
+    queryFn: () => fetchFollowUpAging(bands!),
+    enabled: enabled && !!bands,
+  });
+
+export const useLossBreakdown = (enabled = true) =>
+  useQuery({
+    queryKey: proposalKeys.losses(),
+    queryFn: fetchLossBreakdown,
+    enabled,
+  });
+
+export const usePipelineForecast = (enabled = true) =>
+  useQuery({
+    queryKey: proposalKeys.forecast(),
+    queryFn: async () => buildPipelineForecast(await fetchPipelineForecast()),
+    enabled,
+  });
+
+/** Série mensal do período e do mesmo período no ano anterior (página de análises). */
+export const useMonthlyAnalytics = (range: AnalyticsRange, enabled = true) =>
+  useQuery({
+    queryKey: proposalKeys.monthly(range),
+    queryFn: async () => {
+      const current = getRangeBounds(range);
+      const previous = getRangeBounds(range, 1);
+      const [rows, previousRows] = await Promise.all([
+        fetchMonthlyStats(current.start, current.end),
+        fetchMonthlyStats(previous.start, previous.end),
+      ]);
+      return buildMonthlyAnalytics(range, rows, previousRows);
+    },
+    placeholderData: keepPreviousData, // Mantém o gráfico enquanto o novo período carrega
+    enabled,
+  });
+
+export const useDeletedProposals = (enabled = true) =>
+  useQuery({
+    queryKey: proposalKeys.trash(),
+    queryFn: fetchDeletedProposals,
+    enabled,
+  });
+
+/** ageLimit undefined = faixas ainda carregando. */
+export const useInboxProposals = (ageLimit: number | null | undefined, enabled = true) =>
+  useQuery({
+    queryKey: proposalKeys.inbox(ageLimit),
+    queryFn: () => fetchInboxProposals(ageLimit!),
+    enabled: enabled && ageLimit !== undefined,
+  });
+
+// --- CACHE OTIMISTA ---
+
+type Snapshot = [QueryKey, unknown][];
+
+/** Altera a lista de cada página em cache, a do quadro e a da Inbox; countDelta corrige o total paginado. */
+export const applyToProposalCaches = (
+  queryClient: QueryClient,
+  update: (proposals: Proposal[]) => Proposal[],
+  countDelta = 0
+) => {
+  queryClient.setQueriesData<ProposalsPage>({ queryKey: proposalKeys.lists() }, (page) =>
+    page ? { proposals: update(page.proposals), totalCount: page.totalCount + countDelta } : page
+  );
+  queryClient.setQueriesData<Proposal[]>({ queryKey: proposalKeys.board() }, (proposals) =>
+    proposals ? update(proposals) : proposals
+  );
+  queryClient.setQueriesData<Proposal[]>({ queryKey: proposalKeys.inbox() }, (proposals) =>
+    proposals ? update(proposals) : proposals
+  );
+};
+
+/**
+ * Aplica a mesma alteração em todas as páginas e no quadro que estão no cache.
+ * Devolve o estado anterior para desfazer caso o Supabase recuse a mudança.
+ */
+const patchProposalCaches = async (
+  queryClient: QueryClient,
+  update: (proposals: Proposal[]) => Proposal[]
+): Promise<Snapshot> => {
+  await queryClient.cancelQueries({ queryKey: proposalKeys.all });
+
+  const snapshot: Snapshot = [
+    ...queryClient.getQueriesData({ queryKey: proposalKeys.lists() }),
+    ...queryClient.getQueriesData({ queryKey: proposalKeys.board() }),
+    ...queryClient.getQueriesData({ queryKey: proposalKeys.inbox() }),
+  ];
+
+  applyToProposalCaches(queryClient, update);
+
+  return snapshot;
+};
+
+const rollback = (queryClient: QueryClient, snapshot?: Snapshot) => {
+  snapshot?.forEach(([key, data]) => queryClient.setQueryData(key, data));
+};
+
+interface InvalidateScope {
+  // Propostas alteradas: só o detalhe delas é recarregado (sem ids, o de todas)
+  ids?: string[];
+  // Valor, status, datas ou responsável mudaram: cards, análises e histórico de status
+  totals?: boolean;
+  // false quando só o follow-up mudou: listas e quadro ficam com o patch (o Realtime traz o resto)
+  lists?: boolean;
+  // Propostas entraram ou saíram da lixeira
+  trash?: boolean;
+}
+
+/**
+ * Marca como desatualizado só o que a mutação pode ter mudado. Consultas fora da tela não são
+ * recarregadas agora, só quando voltarem a ser usadas.
+ */
+const invalidate = (queryClient: QueryClient, { ids, totals = false, lists = true, trash = false }: InvalidateScope) => {
+  const queryKeys: QueryKey[] = [
+    ...(ids ? ids.map((id) => proposalKeys.detail(id)) : [proposalKeys.details()]),
+    proposalKeys.inbox(),
+    // Status e follow-ups mudam a contagem por faixa de atraso
+    proposalKeys.aging(),
+    proposalKeys.audit(),
+  ];
+  if (lists) queryKeys.push(proposalKeys.lists(), proposalKeys.board(), proposalKeys.neighbors());
+  if (totals) {
+    queryKeys.push(
+      ...(ids ? ids.map((id) => proposalKeys.statusChanges(id)) : [proposalKeys.statusChanges()]),
+      proposalKeys.totals(),
+      proposalKeys.owners(),
+      proposalKeys.losses(),
+      proposalKeys.forecast(),
+      proposalKeys.monthly()
+    );
+  }
+  if (trash) queryKeys.push(proposalKeys.trash());
+
+  return Promise.all(queryKeys.map((queryKey) => queryClient.invalidateQueries({ queryKey })));
+};
+
+// --- MUTAÇÕES ---
+
+export const useCreateProposal = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createProposal,
+    onMutate: async (proposal) => {
+      // Id provisório até a lista ser recarregada do servidor
+      const optimistic = { ...proposal, id: `temp-${Date.now()}` };
+      const snapshot = await patchProposalCaches(queryClient, (proposals) => [optimistic, ...proposals]);
+      return { snapshot };
+    },
+    onError: (_error, _proposal, context) => rollback(queryClient, context?.snapshot),
+    onSettled: () => invalidate(queryClient, { ids: [], totals: true }),
+  });
+};
+
+export const useUpdateProposal = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateProposal,
+    onMutate: async (proposal) => {
+      let previous: Proposal | undefined;
+      const snapshot = await patchProposalCaches(queryClient, (proposals) =>
+        proposals.map((p) => {
+          if (p.id !== proposal.id) return p;
+          previous = p;
+          // O follow-up é mantido pelo histórico, não pelo formulário
+          return { ...proposal, lastFollowUp: p.lastFollowUp };
+        })
+      );
+      const totalsChanged =
+        !previous ||
+        previous.value !== proposal.value ||
+        previous.status !== proposal.status ||
+        previous.sentVia !== proposal.sentVia ||
+        previous.ownerId !== proposal.ownerId ||
+        previous.lossReason !== proposal.lossReason ||
+        previous.lossCompetitor !== proposal.lossCompetitor ||
+        previous.winProbability !== proposal.winProbability ||
+        previous.sentDate.getTime() !== proposal.sentDate.getTime() ||
+        previous.expectedReturnDate?.getTime() !== proposal.expectedReturnDate?.getTime();
+      return { snapshot, totalsChanged };
+    },
+    onError: (_error, _proposal, context) => rollback(queryClient, context?.snapshot),
+    onSettled: (_data, _error, proposal, context) =>
+      invalidate(queryClient, { ids: [proposal.id], totals: context?.totalsChanged ?? true }),
+  });
+};
+
+export const useDeleteProposal = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteProposal,
+    onMutate: async (id) => {
+      const snapshot = await patchProposalCaches(queryClient, (proposals) => proposals.filter((p) => p.id !== id));
+      return { snapshot };
+    },
+    onError: (_error, _id, context) => rollback(queryClient, context?.snapshot),
+    onSettled: (_data, _error, id) => invalidate(queryClient, { ids: [id], totals: true, trash: true }),
+  });
+};
+
+// Restaurar devolve as propostas às listas; a posição certa só vem na próxima consulta
+export const useRestoreProposals = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: restoreProposals,
+    onMutate: async (ids: string[]) => {
+      await queryClient.cancelQueries({ queryKey: proposalKeys.trash() });
+      const previous = queryClient.getQueryData<Proposal[]>(proposalKeys.trash());
+      queryClient.setQueryData<Proposal[]>(proposalKeys.trash(), (proposals) =>
+        proposals?.filter((p) => !ids.includes(p.id))
+      );
+      return { previous };
+    },
+    onError: (_error, _ids, context) => queryClient.setQueryData(proposalKeys.trash(), context?.previous),
+    onSettled: (_data, _error, ids) => invalidate(queryClient, { ids, totals: true, trash: true }),
+  });
+};
+
+export const usePurgeProposals = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: purgeProposals,
+    // Só a lixeira e a auditoria mudam: as propostas já estavam fora das outras consultas
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: proposalKeys.trash() }),
+        queryClient.invalidateQueries({ queryKey: proposalKeys.audit() }),
+      ]),
+  });
+};
+
+export const useBulkStatus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ ids, status, loss }: { ids: string[]; status: ProposalStatus; loss?: LossDetails }) =>
+      updateProposalsStatus(ids, status, loss),
+    onMutate: async ({ ids, status, loss }) => {
+      const snapshot = await patchProposalCaches(queryClient, (proposals) =>
+        // Transições proibidas são ignoradas também no servidor (ver updateProposalsStatus)
+        proposals.map((p) => (ids.includes(p.id) && canTransition(p.status, status) ? { ...p, status, ...loss } : p))
+      );
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => rollback(queryClient, context?.snapshot),
+    onSettled: (_data, _error, { ids }) => invalidate(queryClient, { ids, totals: true }),
+  });
+};
+
+export const useBulkReassign = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ ids, ownerId }: { ids: string[]; ownerId: string }) => reassignProposals(ids, ownerId),
+    onMutate: async ({ ids, ownerId }) => {
+      const snapshot = await patchProposalCaches(queryClient, (proposals) =>
+        proposals.map((p) => (ids.includes(p.id) ? { ...p, ownerId } : p))
+      );
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => rollback(queryClient, context?.snapshot),
+    onSettled: (_data, _error, { ids }) => invalidate(queryClient, { ids, totals: true }),
+  });
+};
+
+export const useSnoozeProposal = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, until }: { id: string; until: Date }) => snoozeProposal(id, until),
+    onMutate: async ({ id, until }) => {
+      const snapshot = await patchProposalCaches(queryClient, (proposals) =>
+        proposals.map((p) => (p.id === id ? { ...p, expectedReturnDate: until } : p))
+      );
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => rollback(queryClient, context?.snapshot),
+    onSettled: (_data, _error, { id }) => invalidate(queryClient, { ids: [id], totals: true }), // Muda o mês da previsão
+  });
+};
+
+export const useRegisterContact = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: registerContactToday,
+    onMutate: async (id) => {
+      const snapshot = await patchProposalCaches(queryClient, (proposals) =>
+        proposals.map((p) => (p.id === id ? { ...p, lastFollowUp: new Date() } : p))
+      );
+      return { snapshot };
+    },
+    onError: (_error, _id, context) => rollback(queryClient, context?.snapshot),
+    onSettled: (_data, _error, id) => invalidate(queryClient, { ids: [id], lists: false }),
+  });
+};
+
+/** Para mudanças feitas fora destes hooks (importação). */
+export const useInvalidateProposals = () => {
+  const queryClient = useQueryClient();
+  return () => invalidate(queryClient, { totals: true });
+};
+
+/** Follow-up registrado, editado ou excluído: muda a Inbox e o detalhe da proposta. */
+export const useInvalidateFollowUps = () => {
+  const queryClient = useQueryClient();
+  return (proposalId: string) => invalidate(queryClient, { ids: [proposalId], lists: false });
+};
@@ -0,0 +1,29 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { deleteView, fetchSavedViews, saveView } from "@/lib/saved-views";
+
+export const savedViewsKey = ["savedViews"] as const;
+
+export const useSavedViews = (enabled = true) =>
+  useQuery({
+    queryKey: savedViewsKey,
+    queryFn: fetchSavedViews,
+    enabled,
+  });
+
+export const useSaveView = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveView,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: savedViewsKey }),
+  });
+};
+
+export const useDeleteView = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteView,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: savedViewsKey }),
+  });
+};
@@ -0,0 +1,20 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchUserSettings, saveUserSettings } from "@/lib/user-settings";
+
+export const userSettingsKey = ["settings", "user"] as const;
+
+export const useUserSettings = (enabled = true) =>
+  useQuery({
+    queryKey: userSettingsKey,
+    queryFn: fetchUserSettings,
+    enabled,
+  });
+
+export const useSaveUserSettings = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveUserSettings,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: userSettingsKey }),
+  });
+};
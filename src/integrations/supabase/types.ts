@@ -14,57 +14,728 @@ export type Database = {
   }
   public: {
     Tables: {
+      attachment_files_to_delete: {
+        Row: {
+          queued_at: string
+          storage_path: string
+        }
+        Insert: {
+          queued_at?: string
+          storage_path: string
+        }
+        Update: {
+          queued_at?: string
+          storage_path?: string
+        }
+        Relationships: []
+      }
+      clients: {
+        Row: {
+          cnpj: string | null
+          contacts: string | null
+          created_at: string
+          email: string | null
+          id: string
+          name: string
+          organization_id: string
+          phone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cnpj?: string | null
+          contacts?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          name: string
+          organization_id?: string
+          phone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          cnpj?: string | null
+          contacts?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          name?: string
+          organization_id?: string
+          phone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clients_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      follow_up_bands: {
+        Row: {
+          color: string
+          created_at: string
+          icon: string | null
+          id: string
+          label: string
+          max_days: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color: string
+          created_at?: string
+          icon?: string | null
+          id?: string
+          label: string
+          max_days?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          icon?: string | null
+          id?: string
+          label?: string
+          max_days?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      loss_reasons: {
+        Row: {
+          created_at: string
+          id: string
+          label: string
+          position: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          label: string
+          position?: number
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label?: string
+          position?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      memberships: {
+        Row: {
+          created_at: string
+          id: string
+          organization_id: string
+          role: Database["public"]["Enums"]["membership_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          organization_id: string
+          role?: Database["public"]["Enums"]["membership_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["membership_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "memberships_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invites: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["membership_role"]
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          role?: Database["public"]["Enums"]["membership_role"]
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: Database["public"]["Enums"]["membership_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invites_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          require_mfa: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          require_mfa?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          require_mfa?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      proposal_attachments: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          file_name: string
+          id: string
+          proposal_id: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          file_name: string
+          id?: string
+          proposal_id: string
+          size_bytes?: number
+          storage_path: string
+          user_id?: string
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          file_name?: string
+          id?: string
+          proposal_id?: string
+          size_bytes?: number
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proposal_attachments_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: false
+            referencedRelation: "proposals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      proposal_audit: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          operation: string
+          organization_id: string
+          proposal_id: string
+          user_id: string | null
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation: string
+          organization_id: string
+          proposal_id: string
+          user_id?: string | null
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation?: string
+          organization_id?: string
+          proposal_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proposal_audit_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      proposal_follow_ups: {
+        Row: {
+          channel: Database["public"]["Enums"]["proposal_channel"] | null
+          contacted_at: string
+          created_at: string
+          id: string
+          note: string | null
+          outcome: string
+          proposal_id: string
+          user_id: string
+        }
+        Insert: {
+          channel?: Database["public"]["Enums"]["proposal_channel"] | null
+          contacted_at?: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          outcome: string
+          proposal_id: string
+          user_id?: string
+        }
+        Update: {
+          channel?: Database["public"]["Enums"]["proposal_channel"] | null
+          contacted_at?: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          outcome?: string
+          proposal_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proposal_follow_ups_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: false
+            referencedRelation: "proposals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      proposal_status_changes: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          from_status: Database["public"]["Enums"]["proposal_status"] | null
+          id: string
+          proposal_id: string
+          to_status: Database["public"]["Enums"]["proposal_status"]
+          user_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["proposal_status"] | null
+          id?: string
+          proposal_id: string
+          to_status: Database["public"]["Enums"]["proposal_status"]
+          user_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["proposal_status"] | null
+          id?: string
+          proposal_id?: string
+          to_status?: Database["public"]["Enums"]["proposal_status"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proposal_status_changes_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: false
+            referencedRelation: "proposals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       proposals: {
         Row: {
+          client_id: string | null
           client_name: string
           created_at: string
+          deleted_at: string | null
           expected_return_date: string | null
           id: string
           last_follow_up: string
+          legacy_last_follow_up: string | null
+          loss_competitor: string | null
+          loss_notes: string | null
+          loss_reason: string | null
           notes: string | null
+          organization_id: string
+          owner_id: string | null
           sent_date: string
+          sent_via: Database["public"]["Enums"]["proposal_channel"] | null
           status: Database["public"]["Enums"]["proposal_status"]
           updated_at: string
+          updated_by: string | null
           user_id: string
           value: number
+          win_probability: number | null
         }
         Insert: {
+          client_id?: string | null
           client_name: string
           created_at?: string
+          deleted_at?: string | null
           expected_return_date?: string | null
           id?: string
           last_follow_up?: string
+          legacy_last_follow_up?: string | null
+          loss_competitor?: string | null
+          loss_notes?: string | null
+          loss_reason?: string | null
           notes?: string | null
+          organization_id?: string
+          owner_id?: string | null
           sent_date?: string
+          sent_via?: Database["public"]["Enums"]["proposal_channel"] | null
           status?: Database["public"]["Enums"]["proposal_status"]
           updated_at?: string
-          user_id: string
+          updated_by?: string | null
+          user_id?: string
           value: number
+          win_probability?: number | null
         }
         Update: {
+          client_id?: string | null
           client_name?: string
           created_at?: string
+          deleted_at?: string | null
           expected_return_date?: string | null
           id?: string
           last_follow_up?: string
+          legacy_last_follow_up?: string | null
+          loss_competitor?: string | null
+          loss_notes?: string | null
+          loss_reason?: string | null
           notes?: string | null
+          organization_id?: string
+          owner_id?: string | null
           sent_date?: string
+          sent_via?: Database["public"]["Enums"]["proposal_channel"] | null
           status?: Database["public"]["Enums"]["proposal_status"]
           updated_at?: string
+          updated_by?: string | null
           user_id?: string
           value?: number
+          win_probability?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proposals_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proposals_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_views: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          query_string: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          query_string?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          query_string?: string
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
+      user_settings: {
+        Row: {
+          created_at: string
+          current_organization_id: string | null
+          trash_retention_days: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          current_organization_id?: string | null
+          trash_retention_days?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          current_organization_id?: string | null
+          trash_retention_days?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_settings_current_organization_id_fkey"
+            columns: ["current_organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_organization_member: {
+        Args: {
+          member_email: string
+          member_role: Database["public"]["Enums"]["membership_role"]
+        }
+        Returns: boolean
+      }
+      can_delete_attachment_file: {
+        Args: { path: string }
+        Returns: boolean
+      }
+      can_edit_proposal: {
+        Args: { organization: string; owner: string }
+        Returns: boolean
+      }
+      create_organization_invite: {
+        Args: {
+          member_email: string
+          member_role: Database["public"]["Enums"]["membership_role"]
+        }
+        Returns: undefined
+      }
+      current_organization_id: {
+        Args: never
+        Returns: string
+      }
+      current_organization_role: {
+        Args: never
+        Returns: Database["public"]["Enums"]["membership_role"]
+      }
+      ensure_other_admin: {
+        Args: { member: string; org: string }
+        Returns: undefined
+      }
+      get_deleted_proposals: {
+        Args: never
+        Returns: {
+          client_id: string | null
+          client_name: string
+          created_at: string
+          deleted_at: string | null
+          expected_return_date: string | null
+          id: string
+          last_follow_up: string
+          legacy_last_follow_up: string | null
+          loss_competitor: string | null
+          loss_notes: string | null
+          loss_reason: string | null
+          notes: string | null
+          organization_id: string
+          owner_id: string | null
+          sent_date: string
+          sent_via: Database["public"]["Enums"]["proposal_channel"] | null
+          status: Database["public"]["Enums"]["proposal_status"]
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+          value: number
+          win_probability: number | null
+        }[]
+      }
+      get_loss_breakdown: {
+        Args: never
+        Returns: {
+          count: number
+          loss_competitor: string
+          loss_reason: string
+          total_value: number
+        }[]
+      }
+      get_monthly_stats: {
+        Args: { range_end: string; range_start: string }
+        Returns: {
+          count: number
+          month: string
+          status: Database["public"]["Enums"]["proposal_status"]
+          total_value: number
+        }[]
+      }
+      get_organization_members: {
+        Args: never
+        Returns: {
+          email: string
+          name: string
+          role: Database["public"]["Enums"]["membership_role"]
+          user_id: string
+        }[]
+      }
+      get_owner_totals: {
+        Args: {
+          channel?: Database["public"]["Enums"]["proposal_channel"]
+          date_end?: string
+          date_start?: string
+        }
+        Returns: {
+          count: number
+          owner_id: string
+          status: Database["public"]["Enums"]["proposal_status"]
+          total_value: number
+        }[]
+      }
+      get_pipeline_forecast: {
+        Args: never
+        Returns: {
+          count: number
+          month: string
+          status: Database["public"]["Enums"]["proposal_status"]
+          total_value: number
+          win_probability: number
+        }[]
+      }
+      get_proposal_totals: {
+        Args: {
+          channel?: Database["public"]["Enums"]["proposal_channel"]
+          date_end?: string
+          date_start?: string
+        }
+        Returns: {
+          count: number
+          status: Database["public"]["Enums"]["proposal_status"]
+          total_value: number
+        }[]
+      }
+      is_org_member: {
+        Args: { org: string }
+        Returns: boolean
+      }
+      is_valid_owner: {
+        Args: { organization: string; owner: string }
+        Returns: boolean
+      }
+      mfa_satisfied: {
+        Args: { organization: string }
+        Returns: boolean
+      }
+      org_role: {
+        Args: { org: string }
+        Returns: Database["public"]["Enums"]["membership_role"]
+      }
+      purge_expired_proposals: {
+        Args: never
+        Returns: undefined
+      }
+      purge_proposals: {
+        Args: { ids: string[] }
+        Returns: undefined
+      }
+      remove_organization_member: {
+        Args: { member: string }
+        Returns: undefined
+      }
+      require_organization_admin: {
+        Args: never
+        Returns: string
+      }
+      restore_proposals: {
+        Args: { ids: string[] }
+        Returns: undefined
+      }
+      save_follow_up_bands: {
+        Args: { bands: Json }
+        Returns: undefined
+      }
+      save_loss_reasons: {
+        Args: { reasons: string[] }
+        Returns: undefined
+      }
+      set_organization_member_role: {
+        Args: {
+          member: string
+          member_role: Database["public"]["Enums"]["membership_role"]
+        }
+        Returns: undefined
+      }
+      soft_delete_proposals: {
+        Args: { ids: string[] }
+        Returns: undefined
+      }
     }
     Enums: {
-      proposal_status: "pending" | "approved" | "rejected"
+      membership_role: "admin" | "seller" | "viewer"
+      proposal_channel: "email" | "whatsapp" | "other"
+      proposal_status:
+        | "draft"
+        | "sent"
+        | "pending"
+        | "negotiating"
+        | "approved"
+        | "rejected"
+        | "expired"
+        | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -192,7 +863,18 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      proposal_status: ["pending", "approved", "rejected"],
+      membership_role: ["admin", "seller", "viewer"],
+      proposal_channel: ["email", "whatsapp", "other"],
+      proposal_status: [
+        "draft",
+        "sent",
+        "pending",
+        "negotiating",
+        "approved",
+        "rejected",
+        "expired",
+        "cancelled",
+      ],
     },
   },
 } as const
@@ -0,0 +1,49 @@
+import * as z from "zod";
+
+// Formulários das telas de autenticação (login, recuperação de senha e convite)
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const email = z
+  .string()
+  .trim()
+  .min(1, "Informe o e-mail")
+  .email("E-mail inválido");
+
+const newPassword = z
+  .string()
+  .min(MIN_PASSWORD_LENGTH, `A senha precisa ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres`);
+
+export const loginSchema = z.object({
+  email,
+  password: z.string().min(1, "Informe a senha"),
+});
+
+// Link mágico e "esqueci minha senha" só pedem o e-mail
+export const emailSchema = z.object({ email });
+
+const passwordsMatch = (values: { password: string; confirmPassword: string }) =>
+  values.password === values.confirmPassword;
+
+const mismatch = { message: "As senhas não conferem", path: ["confirmPassword"] };
+
+export const updatePasswordSchema = z
+  .object({
+    password: newPassword,
+    confirmPassword: z.string(),
+  })
+  .refine(passwordsMatch, mismatch);
+
+// Quem aceita o convite escolhe o nome de exibição junto com a senha
+export const acceptInviteSchema = z
+  .object({
+    fullName: z.string().trim().min(1, "Informe seu nome"),
+    password: newPassword,
+    confirmPassword: z.string(),
+  })
+  .refine(passwordsMatch, mismatch);
+
+export type LoginFormValues = z.infer<typeof loginSchema>;
+export type EmailFormValues = z.infer<typeof emailSchema>;
+export type UpdatePasswordFormValues = z.infer<typeof updatePasswordSchema>;
+export type AcceptInviteFormValues = z.infer<typeof acceptInviteSchema>;
@@ -0,0 +1,80 @@
+import { isAuthError, isAuthRetryableFetchError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// Mensagens do Supabase Auth (por código de erro) em português
+const authErrorMessages: Record<string, string> = {
+  invalid_credentials: "E-mail ou senha incorretos.",
+  email_not_confirmed: "Confirme seu e-mail antes de entrar. Verifique sua caixa de entrada.",
+  user_banned: "Este usuário está bloqueado. Fale com o administrador.",
+  user_not_found: "Nenhum usuário encontrado com este e-mail.",
+  signup_disabled: "O cadastro é feito apenas por convite. Peça um convite ao administrador.",
+  otp_disabled: "O acesso por link está desativado. Entre com e-mail e senha.",
+  otp_expired: "O link expirou ou já foi usado. Peça um novo.",
+  email_address_invalid: "E-mail inválido.",
+  email_address_not_authorized: "Este e-mail não está autorizado a receber mensagens do sistema.",
+  same_password: "A nova senha precisa ser diferente da atual.",
+  weak_password: "Senha fraca. Use letras, números e símbolos.",
+  session_not_found: "Sua sessão expirou. Abra o link do e-mail novamente.",
+  session_expired: "Sua sessão expirou. Entre novamente.",
+  over_email_send_rate_limit: "Muitos e-mails enviados. Aguarde alguns minutos e tente de novo.",
+  over_request_rate_limit: "Muitas tentativas. Aguarde alguns minutos e tente de novo.",
+  mfa_verification_failed: "Código incorreto. Confira o aplicativo autenticador e tente de novo.",
+  mfa_challenge_expired: "O código expirou. Digite o código que aparece agora no aplicativo.",
+  insufficient_aal: "Digite o código do aplicativo autenticador para continuar.",
+  mfa_totp_enroll_not_enabled: "A verificação em duas etapas não está habilitada no servidor.",
+  mfa_totp_verify_not_enabled: "A verificação em duas etapas não está habilitada no servidor.",
+};
+
+/** Mensagem para mostrar ao usuário; erros desconhecidos caem no texto genérico. */
+export const getAuthErrorMessage = (error: unknown, fallback = "Não foi possível concluir. Tente novamente.") => {
+  if (isAuthRetryableFetchError(error)) return "Sem conexão com o servidor. Verifique sua internet.";
+  if (isAuthError(error)) {
+    if (error.code && authErrorMessages[error.code]) return authErrorMessages[error.code];
+    if (error.status === 429) return authErrorMessages.over_request_rate_limit;
+  }
+  return fallback;
+};
+
+/**
+ * Erro devolvido pelo Supabase na URL dos links de e-mail (ex.: #error_code=otp_expired),
+ * quando o link de convite ou de recuperação não vale mais.
+ */
+export const getUrlAuthError = () => {
+  const params = new URLSearchParams(window.location.hash.slice(1) || window.location.search);
+  const code = params.get("error_code");
+  if (!code && !params.get("error")) return undefined;
+  return authErrorMessages[code ?? ""] ?? "Link inválido. Peça um novo.";
+};
+
+const redirectTo = (path: string) => `${window.location.origin}${path}`;
+
+export const signInWithPassword = async (email: string, password: string) => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw error;
+};
+
+/** Link mágico: só para quem já tem conta (o cadastro é por convite). */
+export const sendMagicLink = async (email: string) => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { shouldCreateUser: false, emailRedirectTo: redirectTo("/") },
+  });
+  if (error) throw error;
+};
+
+export const sendPasswordReset = async (email: string) => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo: redirectTo("/update-password") });
+  if (error) throw error;
+};
+
+/** Troca a senha de quem entrou pelo link de recuperação. */
+export const updatePassword = async (password: string) => {
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) throw error;
+};
+
+/** Primeiro acesso pelo link de convite: define a senha e o nome mostrado aos colegas. */
+export const acceptInvite = async (fullName: string, password: string) => {
+  const { error } = await supabase.auth.updateUser({ password, data: { full_name: fullName } });
+  if (error) throw error;
+};
@@ -0,0 +1,29 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/** Chave para comparar nomes de clientes: "ACME" e " acme" são o mesmo cadastro. */
+export const clientKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Cliente da organização com esse nome, cadastrando se ainda não existir. A busca vai ao banco
+ * porque outro membro pode ter cadastrado o cliente depois que a lista da tela foi carregada.
+ */
+export const findOrCreateClient = async (name: string) => {
+  const trimmed = name.trim();
+  const { data: existing, error } = await supabase
+    .from("clients")
+    .select("id, name")
+    .ilike("name", trimmed.replace(/[%_\\]/g, "\\$&"))
+    .limit(1);
+
+  if (error) throw error;
+  if (existing.length > 0) return { client: existing[0], created: false };
+
+  const { data, error: createError } = await supabase
+    .from("clients")
+    .insert({ name: trimmed })
+    .select("id, name")
+    .single();
+
+  if (createError) throw createError;
+  return { client: data, created: true };
+};
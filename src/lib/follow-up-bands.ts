@@ -0,0 +1,112 @@
+import * as z from "zod";
+import { AlertCircle, AlertTriangle, Clock, Flame, LucideIcon } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { FollowUpBand, FollowUpBandIcon, defaultFollowUpBands } from "@/types/follow-up-band";
+
+export const followUpBandIcons: Record<FollowUpBandIcon, LucideIcon> = {
+  clock: Clock,
+  "alert-circle": AlertCircle,
+  "alert-triangle": AlertTriangle,
+  flame: Flame,
+};
+
+export const getDaysSinceFollowUp = (date: Date) => {
+  const today = new Date();
+  const diffTime = Math.abs(today.getTime() - date.getTime());
+  return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+};
+
+/** Faixas vêm ordenadas por limite; a última (sem limite) pega o que sobrar. */
+export const getFollowUpBand = (days: number, bands: FollowUpBand[]) =>
+  bands.find((band) => band.maxDays === null || days <= band.maxDays) ?? bands[bands.length - 1];
+
+export const formatBandRange = (bands: FollowUpBand[], index: number) => {
+  const { maxDays } = bands[index];
+  const previous = bands[index - 1]?.maxDays;
+
+  if (maxDays === null) return previous ? `mais de ${previous} dias` : "qualquer prazo";
+  if (!previous) return `até ${maxDays} dias`;
+  return `${previous + 1} a ${maxDays} dias`;
+};
+
+// --- PERSISTÊNCIA ---
+
+export const fetchFollowUpBands = async (): Promise<FollowUpBand[]> => {
+  const { data, error } = await supabase
+    .from("follow_up_bands")
+    .select("*")
+    .order("max_days", { ascending: true, nullsFirst: false });
+
+  if (error) throw error;
+  if (data.length === 0) return defaultFollowUpBands;
+
+  return data.map((band) => ({
+    maxDays: band.max_days,
+    label: band.label,
+    color: band.color,
+    icon: (band.icon as FollowUpBandIcon | null) ?? undefined,
+  }));
+};
+
+export const saveFollowUpBands = async (bands: FollowUpBand[]) => {
+  const { error } = await supabase.rpc("save_follow_up_bands", {
+    bands: bands.map((band) => ({
+      max_days: band.maxDays,
+      label: band.label,
+      color: band.color,
+      icon: band.icon ?? null,
+    })),
+  });
+
+  if (error) throw error;
+};
+
+// --- FORMULÁRIO (página de configurações) ---
+
+export const NO_ICON = "none"; // Valor do Select para faixa sem ícone
+
+export const followUpBandsSchema = z
+  .object({
+    bands: z
+      .array(
+        z.object({
+          maxDays: z.string(),
+          label: z.string().trim().min(1, "Nome da faixa é obrigatório"),
+          color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Cor inválida"),
+          icon: z.string(),
+        })
+      )
+      .min(1, "Cadastre ao menos uma faixa"),
+  })
+  .superRefine(({ bands }, ctx) => {
+    // A última faixa não tem limite; as outras precisam de limites crescentes
+    bands.slice(0, -1).forEach((band, index) => {
+      const days = Number(band.maxDays);
+      const path = ["bands", index, "maxDays"];
+
+      if (!band.maxDays || !Number.isInteger(days) || days <= 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: "Informe um número de dias maior que zero" });
+      } else if (index > 0 && days <= Number(bands[index - 1].maxDays)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: "Deve ser maior que o limite da faixa anterior" });
+      }
+    });
+  });
+
+export type FollowUpBandsFormValues = z.infer<typeof followUpBandsSchema>;
+
+export const toFollowUpBandsForm = (bands: FollowUpBand[]): FollowUpBandsFormValues => ({
+  bands: bands.map((band) => ({
+    maxDays: band.maxDays === null ? "" : String(band.maxDays),
+    label: band.label,
+    color: band.color,
+    icon: band.icon ?? NO_ICON,
+  })),
+});
+
+export const fromFollowUpBandsForm = ({ bands }: FollowUpBandsFormValues): FollowUpBand[] =>
+  bands.map((band, index) => ({
+    maxDays: index === bands.length - 1 ? null : Number(band.maxDays),
+    label: band.label.trim(),
+    color: band.color,
+    icon: band.icon === NO_ICON ? undefined : (band.icon as FollowUpBandIcon),
+  }));
@@ -0,0 +1,54 @@
+import { Proposal } from "@/types/proposal";
+import { FollowUpBand } from "@/types/follow-up-band";
+import { getDaysSinceFollowUp } from "@/lib/follow-up-bands";
+import { isOpenStatus } from "@/lib/proposal-status";
+
+export type InboxReason = "return_date" | "follow_up_age";
+
+export interface InboxItem {
+  proposal: Proposal;
+  reason: InboxReason;
+  daysSinceFollowUp: number;
+  overdueDays: number; // Dias além do retorno previsto ou do limite de follow-up
+}
+
+/** Passou da primeira faixa configurada (a "em dia") = precisa de contato. */
+export const getInboxAgeLimit = (bands: FollowUpBand[]) => bands[0]?.maxDays ?? null;
+
+/**
+ * Propostas em aberto que pedem contato hoje, das mais urgentes para as menos.
+ * - Retorno previsto vencido, sem contato desde então;
+ * - ou sem follow-up há mais de ageLimit dias, a não ser que tenha retorno futuro (adiada).
+ */
+export const getInboxItems = (proposals: Proposal[], ageLimit: number | null): InboxItem[] => {
+  const now = new Date();
+
+  return proposals
+    .filter((p) => isOpenStatus(p.status))
+    .flatMap((proposal): InboxItem[] => {
+      const { expectedReturnDate, lastFollowUp } = proposal;
+      const daysSinceFollowUp = getDaysSinceFollowUp(lastFollowUp);
+
+      if (expectedReturnDate && expectedReturnDate <= now && lastFollowUp < expectedReturnDate) {
+        return [{
+          proposal,
+          reason: "return_date",
+          daysSinceFollowUp,
+          overdueDays: getDaysSinceFollowUp(expectedReturnDate),
+        }];
+      }
+
+      const isSnoozed = expectedReturnDate && expectedReturnDate > now;
+      if (!isSnoozed && ageLimit !== null && daysSinceFollowUp > ageLimit) {
+        return [{
+          proposal,
+          reason: "follow_up_age",
+          daysSinceFollowUp,
+          overdueDays: daysSinceFollowUp - ageLimit,
+        }];
+      }
+
+      return [];
+    })
+    .sort((a, b) => b.overdueDays - a.overdueDays || b.proposal.value - a.proposal.value);
+};
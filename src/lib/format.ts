@@ -0,0 +1,17 @@
+// Formatação pt-BR compartilhada entre telas, exportações e relatórios
+
+export const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(value);
+};
+
+// Eixos de gráficos: "R$ 12 mil"
+export const formatCompactCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL", notation: "compact" }).format(value);
+
+export const formatDate = (date?: Date) => {
+  if (!date) return "-";
+  return new Intl.DateTimeFormat("pt-BR").format(date);
+};
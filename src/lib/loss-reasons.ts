@@ -0,0 +1,14 @@
+import { supabase } from "@/integrations/supabase/client";
+import { defaultLossReasons } from "@/types/proposal";
+
+export const fetchLossReasons = async (): Promise<string[]> => {
+  const { data, error } = await supabase.from("loss_reasons").select("label").order("position");
+
+  if (error) throw error;
+  return data.length > 0 ? data.map((row) => row.label) : defaultLossReasons;
+};
+
+export const saveLossReasons = async (reasons: string[]) => {
+  const { error } = await supabase.rpc("save_loss_reasons", { reasons });
+  if (error) throw error;
+};
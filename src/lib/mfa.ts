@@ -0,0 +1,66 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Verificação em duas etapas com aplicativo autenticador (fatores TOTP do Supabase Auth)
+
+export interface MfaStatus {
+  factorId?: string; // Fator TOTP já verificado; vazio = MFA não ativado
+  // Entrou só com a senha (aal1) mas tem MFA ativado: falta digitar o código
+  needsChallenge: boolean;
+  isVerified: boolean; // Sessão atual já passou pelo código (aal2)
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  qrCode: string; // SVG em data URL, pronto para <img>
+  secret: string; // Para digitar no aplicativo quando não der para ler o QR code
+}
+
+export const fetchMfaStatus = async (): Promise<MfaStatus> => {
+  const [levels, factors] = await Promise.all([
+    supabase.auth.mfa.getAuthenticatorAssuranceLevel(),
+    supabase.auth.mfa.listFactors(),
+  ]);
+  if (levels.error) throw levels.error;
+  if (factors.error) throw factors.error;
+
+  const { currentLevel, nextLevel } = levels.data;
+  return {
+    factorId: factors.data.totp[0]?.id,
+    needsChallenge: currentLevel === "aal1" && nextLevel === "aal2",
+    isVerified: currentLevel === "aal2",
+  };
+};
+
+/**
+ * Começa o cadastro de um aplicativo autenticador. Tentativas abandonadas deixam fatores
+ * não verificados para trás; eles são removidos antes de criar o novo.
+ */
+export const enrollTotp = async (): Promise<TotpEnrollment> => {
+  const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+  if (listError) throw listError;
+
+  for (const factor of factors.all.filter((f) => f.factor_type === "totp" && f.status === "unverified")) {
+    const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+    if (error) throw error;
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: "totp",
+    friendlyName: "Aplicativo autenticador",
+  });
+  if (error) throw error;
+
+  return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+};
+
+/** Confere o código de 6 dígitos; no sucesso a sessão sobe para aal2 (e o fator novo fica verificado). */
+export const verifyTotp = async ({ factorId, code }: { factorId: string; code: string }) => {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+  if (error) throw error;
+};
+
+/** Desativa o MFA; o Supabase só permite a partir de uma sessão aal2. */
+export const unenrollTotp = async (factorId: string) => {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  if (error) throw error;
+};
@@ -0,0 +1,91 @@
+import { supabase } from "@/integrations/supabase/client";
+import { MembershipRole, Organization, OrganizationMember } from "@/types/organization";
+import { assertAffected } from "@/lib/proposals-api";
+
+/** Organizações de que o usuário é membro (o RLS já filtra). */
+export const fetchOrganizations = async (): Promise<Organization[]> => {
+  const { data, error } = await supabase.from("organizations").select("id, name, require_mfa").order("name");
+
+  if (error) throw error;
+  return data.map((row) => ({ id: row.id, name: row.name, requireMfa: row.require_mfa }));
+};
+
+/** Organização cujas propostas o RLS está mostrando agora. */
+export const fetchCurrentOrganizationId = async () => {
+  const { data, error } = await supabase.rpc("current_organization_id");
+  if (error) throw error;
+  return data;
+};
+
+/** Quem está logado e com que papel na organização atual (role undefined = não é membro). */
+export const fetchCurrentMembership = async (): Promise<{ userId: string; role?: MembershipRole }> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Sessão expirada");
+
+  const { data, error } = await supabase.rpc("current_organization_role");
+  if (error) throw error;
+  return { userId: user.id, role: data ?? undefined };
+};
+
+/** Membros da organização atual, em ordem de nome (responsáveis possíveis das propostas). */
+export const fetchOrganizationMembers = async (): Promise<OrganizationMember[]> => {
+  const { data, error } = await supabase.rpc("get_organization_members");
+  if (error) throw error;
+
+  return data.map((row) => ({
+    userId: row.user_id,
+    name: row.name,
+    email: row.email,
+    role: row.role,
+  }));
+};
+
+/** Adiciona quem já tem conta à organização atual; false = não há conta com esse e-mail. */
+export const addOrganizationMember = async (email: string, role: MembershipRole) => {
+  const { data, error } = await supabase.rpc("add_organization_member", { member_email: email, member_role: role });
+  if (error) throw error;
+  return data;
+};
+
+/** Convida por e-mail quem ainda não tem conta (edge function invite-member; só admins). */
+export const inviteOrganizationMember = async (email: string, role: MembershipRole) => {
+  const { error } = await supabase.functions.invoke("invite-member", {
+    body: { email, role, redirectTo: `${window.location.origin}/accept-invite` },
+  });
+  if (error) throw error;
+};
+
+export const setOrganizationMemberRole = async (userId: string, role: MembershipRole) => {
+  const { error } = await supabase.rpc("set_organization_member_role", { member: userId, member_role: role });
+  if (error) throw error;
+};
+
+/** Remove da organização atual; as propostas do membro ficam sem responsável. */
+export const removeOrganizationMember = async (userId: string) => {
+  const { error } = await supabase.rpc("remove_organization_member", { member: userId });
+  if (error) throw error;
+};
+
+/** Liga ou desliga o MFA obrigatório (só admins; para ligar, o admin precisa estar com MFA). */
+export const setOrganizationRequireMfa = async (organizationId: string, requireMfa: boolean) => {
+  const { data, error } = await supabase
+    .from("organizations")
+    .update({ require_mfa: requireMfa })
+    .eq("id", organizationId)
+    .select("id");
+
+  if (error) throw error;
+  assertAffected(data, "Sem permissão para alterar a organização");
+};
+
+/** Troca a organização atual; a escolha fica em user_settings e vale para todas as sessões. */
+export const switchOrganization = async (organizationId: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Sessão expirada");
+
+  const { error } = await supabase
+    .from("user_settings")
+    .upsert({ user_id: user.id, current_organization_id: organizationId });
+
+  if (error) throw error;
+};
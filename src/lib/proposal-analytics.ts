@@ -0,0 +1,118 @@
+import { ProposalStatus } from "@/types/proposal";
+import { proposalStatuses } from "@/lib/proposal-status";
+import { monthKey } from "@/lib/proposal-forecast";
+import { fetchMonthlyStats } from "@/lib/proposals-api";
+
+type MonthlyRow = Awaited<ReturnType<typeof fetchMonthlyStats>>[number];
+
+/** Período em meses inteiros, no formato do <input type="month"> ("2025-01"). */
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+}
+
+export type AnalyticsMetric = "count" | "value";
+
+export interface PeriodSummary {
+  total: number;
+  totalValue: number;
+  won: number;
+  wonValue: number;
+  lost: number;
+  winRate: number | null; // Aprovadas / (aprovadas + recusadas), em %; null sem nenhuma decidida
+}
+
+export interface AnalyticsMonth {
+  key: string;
+  label: string;
+  count: Partial<Record<ProposalStatus, number>>;
+  value: Partial<Record<ProposalStatus, number>>;
+  summary: PeriodSummary;
+  previous: PeriodSummary; // Mesmo mês do ano anterior
+}
+
+export interface MonthlyAnalytics {
+  months: AnalyticsMonth[];
+  summary: PeriodSummary;
+  previousSummary: PeriodSummary;
+  statuses: ProposalStatus[]; // Status com alguma proposta no período, na ordem do funil
+}
+
+const parseMonth = (key: string) => {
+  const [year, month] = key.split("-").map(Number);
+  return new Date(year, month - 1, 1);
+};
+
+/** Últimos 12 meses, incluindo o atual. */
+export const getDefaultAnalyticsRange = (): AnalyticsRange => {
+  const today = new Date();
+  return {
+    from: monthKey(new Date(today.getFullYear(), today.getMonth() - 11, 1)),
+    to: monthKey(today),
+  };
+};
+
+export const isValidAnalyticsRange = (range: AnalyticsRange) =>
+  !!range.from && !!range.to && range.from <= range.to;
+
+/** Datas para a consulta: início do primeiro mês e início do mês seguinte ao último (exclusivo). */
+export const getRangeBounds = (range: AnalyticsRange, yearsBack = 0) => {
+  const from = parseMonth(range.from);
+  const to = parseMonth(range.to);
+  return {
+    start: new Date(from.getFullYear() - yearsBack, from.getMonth(), 1),
+    end: new Date(to.getFullYear() - yearsBack, to.getMonth() + 1, 1),
+  };
+};
+
+const summarize = (rows: MonthlyRow[]): PeriodSummary => {
+  const summary: PeriodSummary = { total: 0, totalValue: 0, won: 0, wonValue: 0, lost: 0, winRate: null };
+
+  rows.forEach((row) => {
+    summary.total += row.count;
+    summary.totalValue += row.totalValue;
+    if (row.status === "approved") {
+      summary.won += row.count;
+      summary.wonValue += row.totalValue;
+    } else if (row.status === "rejected") {
+      summary.lost += row.count;
+    }
+  });
+
+  const decided = summary.won + summary.lost;
+  summary.winRate = decided > 0 ? (summary.won / decided) * 100 : null;
+
+  return summary;
+};
+
+/** Série mês a mês do período, com o mesmo mês do ano anterior ao lado para comparação. */
+export const buildMonthlyAnalytics = (
+  range: AnalyticsRange,
+  rows: MonthlyRow[],
+  previousRows: MonthlyRow[]
+): MonthlyAnalytics => {
+  const { start, end } = getRangeBounds(range);
+  const months: AnalyticsMonth[] = [];
+
+  for (let date = start; date < end; date = new Date(date.getFullYear(), date.getMonth() + 1, 1)) {
+    const key = monthKey(date);
+    const previousKey = monthKey(new Date(date.getFullYear() - 1, date.getMonth(), 1));
+    const monthRows = rows.filter((row) => monthKey(row.month) === key);
+
+    months.push({
+      key,
+      label: date.toLocaleDateString("pt-BR", { month: "short", year: "2-digit" }),
+      count: Object.fromEntries(monthRows.map((row) => [row.status, row.count])),
+      value: Object.fromEntries(monthRows.map((row) => [row.status, row.totalValue])),
+      summary: summarize(monthRows),
+      previous: summarize(previousRows.filter((row) => monthKey(row.month) === previousKey)),
+    });
+  }
+
+  return {
+    months,
+    summary: summarize(rows),
+    previousSummary: summarize(previousRows),
+    statuses: proposalStatuses.filter((status) => rows.some((row) => row.status === status)),
+  };
+};
@@ -0,0 +1,78 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ProposalAttachment } from "@/types/proposal";
+import { toProposalAttachment } from "@/lib/proposal-mappers";
+import { assertAffected } from "@/lib/proposals-api";
+
+const BUCKET = "proposal-attachments";
+
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024; // 20 MB
+
+export const fetchAttachments = async (proposalId: string) => {
+  const { data, error } = await supabase
+    .from("proposal_attachments")
+    .select("*")
+    .eq("proposal_id", proposalId)
+    .order("created_at");
+
+  if (error) throw error;
+  return data.map(toProposalAttachment);
+};
+
+/** Sobe o arquivo para a pasta do usuário no bucket e registra os metadados. */
+export const uploadAttachment = async ({ proposalId, file }: { proposalId: string; file: File }) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Sessão expirada");
+
+  // Prefixo aleatório: dois arquivos com o mesmo nome não se sobrescrevem
+  const storagePath = `${user.id}/${proposalId}/${crypto.randomUUID()}-${file.name}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(storagePath, file, { contentType: file.type || undefined });
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase.from("proposal_attachments").insert({
+    proposal_id: proposalId,
+    file_name: file.name,
+    storage_path: storagePath,
+    size_bytes: file.size,
+    content_type: file.type || null,
+  });
+
+  if (error) {
+    // Sem o registro o arquivo ficaria órfão no bucket
+    await supabase.storage.from(BUCKET).remove([storagePath]);
+    throw error;
+  }
+};
+
+/** Link temporário para baixar um anexo do bucket privado. */
+export const getAttachmentUrl = async (attachment: ProposalAttachment) => {
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(attachment.storagePath, 60, { download: attachment.fileName });
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export const deleteAttachment = async (attachment: ProposalAttachment) => {
+  // Enquanto o registro existe, o Storage confere a permissão pela proposta do anexo
+  const { error: storageError } = await supabase.storage.from(BUCKET).remove([attachment.storagePath]);
+  if (storageError) throw storageError;
+
+  const { data, error } = await supabase
+    .from("proposal_attachments")
+    .delete()
+    .eq("id", attachment.id)
+    .select("id");
+
+  if (error) throw error;
+  assertAffected(data, "Sem permissão para excluir o anexo");
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(".", ",")} MB`;
+};
@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { AuditChange, AuditEntry, AuditOperation, AuditSnapshot } from "@/types/audit";
+import { ProposalChannel, ProposalStatus, channelLabels, statusLabels } from "@/types/proposal";
+import { formatCurrency, formatDate } from "@/lib/format";
+
+export const AUDIT_PAGE_SIZE = 50;
+
+// Valores crus dos filtros da página de auditoria (strings vazias = sem filtro)
+export interface AuditFilters {
+  search: string; // Nome do cliente, antes ou depois da mudança
+  operation: AuditOperation | "";
+  dateStart: string;
+  dateEnd: string;
+}
+
+export const defaultAuditFilters: AuditFilters = { search: "", operation: "", dateStart: "", dateEnd: "" };
+
+const toAuditEntry = (row: Tables<"proposal_audit">): AuditEntry => ({
+  id: row.id,
+  proposalId: row.proposal_id,
+  operation: row.operation as AuditOperation,
+  changedBy: row.changed_by ?? undefined,
+  changedAt: new Date(row.changed_at),
+  oldData: (row.old_data as AuditSnapshot | null) ?? undefined,
+  newData: (row.new_data as AuditSnapshot | null) ?? undefined,
+});
+
+export const fetchProposalAudit = async (proposalId: string) => {
+  const { data, error } = await supabase
+    .from("proposal_audit")
+    .select("*")
+    .eq("proposal_id", proposalId)
+    .order("changed_at", { ascending: false });
+
+  if (error) throw error;
+  return data.map(toAuditEntry);
+};
+
+export const fetchAuditLog = async (filters: AuditFilters, page: number) => {
+  let request = supabase.from("proposal_audit").select("*", { count: "exact" });
+
+  if (filters.search) {
+    // Entre aspas para vírgulas e parênteses do nome não quebrarem o filtro do PostgREST
+    const term = filters.search.replace(/[%_\\]/g, "\\$&").replace(/"/g, '\\"');
+    request = request.or(`new_data->>client_name.ilike."%${term}%",old_data->>client_name.ilike."%${term}%"`);
+  }
+  if (filters.operation) request = request.eq("operation", filters.operation);
+  if (filters.dateStart) request = request.gte("changed_at", filters.dateStart);
+  if (filters.dateEnd) request = request.lte("changed_at", `${filters.dateEnd}T23:59:59.999Z`);
+
+  const from = (page - 1) * AUDIT_PAGE_SIZE;
+  const { data, error, count } = await request
+    .order("changed_at", { ascending: false })
+    .order("id")
+    .range(from, from + AUDIT_PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return { entries: data.map(toAuditEntry), totalCount: count ?? 0 };
+};
+
+// --- DIFERENÇAS ---
+
+const formatDay = (value: unknown) => (typeof value === "string" ? formatDate(new Date(value)) : "-");
+
+// Colunas exibidas no histórico, na ordem do formulário; as de controle (ids, updated_at...) ficam de fora
+const auditFields: { field: keyof Tables<"proposals">; label: string; format?: (value: unknown) => string }[] = [
+  { field: "client_name", label: "Cliente" },
+  { field: "sent_date", label: "Data de Envio", format: formatDay },
+  { field: "value", label: "Valor", format: (value) => formatCurrency(Number(value)) },
+  { field: "status", label: "Status", format: (value) => statusLabels[value as ProposalStatus] ?? String(value) },
+  { field: "sent_via", label: "Enviado por", format: (value) => channelLabels[value as ProposalChannel] ?? String(value) },
+  { field: "expected_return_date", label: "Previsão de Retorno", format: formatDay },
+  { field: "last_follow_up", label: "Último Follow-up", format: formatDay },
+  { field: "win_probability", label: "Probabilidade de Ganho", format: (value) => `${value}%` },
+  { field: "loss_reason", label: "Motivo da Perda" },
+  { field: "loss_competitor", label: "Concorrente" },
+  { field: "loss_notes", label: "Observações da Perda" },
+  { field: "notes", label: "Observações" },
+  { field: "deleted_at", label: "Na lixeira desde", format: formatDay },
+];
+
+/** Campos que mudaram entre a linha antiga e a nova, já formatados para exibição. */
+export const getAuditChanges = (entry: AuditEntry): AuditChange[] =>
+  auditFields
+    .filter(({ field }) => JSON.stringify(entry.oldData?.[field] ?? null) !== JSON.stringify(entry.newData?.[field] ?? null))
+    .map(({ field, label, format }) => {
+      const display = (value: unknown) =>
+        value === null || value === undefined || value === "" ? "-" : format ? format(value) : String(value);
+      return { field, label, from: display(entry.oldData?.[field]), to: display(entry.newData?.[field]) };
+    });
+
+/** Nome do cliente da proposta auditada (a linha nova, ou a antiga numa exclusão). */
+export const getAuditClientName = (entry: AuditEntry) =>
+  entry.newData?.client_name ?? entry.oldData?.client_name ?? "-";
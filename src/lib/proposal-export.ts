@@ -0,0 +1,174 @@
+import ExcelJS from "exceljs";
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { Proposal, channelLabels, statusLabels } from "@/types/proposal";
+import { getProposalStats } from "@/lib/proposal-stats";
+import { formatCurrency, formatDate } from "@/lib/format";
+import logo from "@/assets/logo.png";
+
+const headers = [
+  "Cliente",
+  "Data Envio",
+  "Via",
+  "Valor (R$)",
+  "Status",
+  "Último Follow-up",
+  "Previsão",
+  "Observações",
+];
+
+const fileName = (extension: string) =>
+  `propostas-${new Date().toISOString().split("T")[0]}.${extension}`;
+
+const downloadBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- CSV (padrão Excel pt-BR: ";" como separador e vírgula decimal) ---
+
+// Texto começando com =, +, -, @, tab ou CR vira fórmula no Excel/LibreOffice: o apóstrofo
+// força texto (nomes de clientes e observações são digitados pelos usuários)
+const csvCell = (value: string) => {
+  const isFormula = /^[=+\-@\t\r]/.test(value) && !/^-[\d.,]+$/.test(value); // valor negativo continua número
+  const safe = isFormula ? `'${value}` : value;
+  return /[";\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const exportProposalsCsv = (proposals: Proposal[]) => {
+  const formatNumber = (value: number) =>
+    value.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  const lines = [
+    headers,
+    ...proposals.map((p) => [
+      p.clientName,
+      formatDate(p.sentDate),
+      p.sentVia ? channelLabels[p.sentVia] : "",
+      formatNumber(p.value),
+      statusLabels[p.status],
+      formatDate(p.lastFollowUp),
+      p.expectedReturnDate ? formatDate(p.expectedReturnDate) : "",
+      p.notes || "",
+    ]),
+  ].map((row) => row.map(csvCell).join(";"));
+
+  // BOM para o Excel reconhecer os acentos em UTF-8
+  const blob = new Blob(["\uFEFF" + lines.join("\r\n")], { type: "text/csv;charset=utf-8" });
+  downloadBlob(blob, fileName("csv"));
+};
+
+// --- XLSX (datas e valores como células tipadas, com formato brasileiro) ---
+
+export const exportProposalsXlsx = async (proposals: Proposal[]) => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Propostas");
+
+  const widths = [35, 12, 10, 15, 12, 16, 12, 50];
+  sheet.columns = headers.map((header, index) => ({ header, width: widths[index] }));
+  sheet.addRows(
+    proposals.map((p) => [
+      p.clientName,
+      p.sentDate,
+      p.sentVia ? channelLabels[p.sentVia] : "",
+      p.value,
+      statusLabels[p.status],
+      p.lastFollowUp,
+      p.expectedReturnDate ?? "",
+      p.notes || "",
+    ])
+  );
+
+  for (const col of [2, 6, 7]) sheet.getColumn(col).numFmt = "dd/mm/yyyy";
+  sheet.getColumn(4).numFmt = '"R$" #,##0.00';
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(
+    new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+    fileName("xlsx")
+  );
+};
+
+// --- PDF (relatório para impressão) ---
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+  });
+
+export const exportProposalsPdf = async (proposals: Proposal[]) => {
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 14;
+
+  const image = await loadImage(logo);
+  const logoHeight = 14;
+  const logoWidth = (image.naturalWidth / image.naturalHeight) * logoHeight;
+  doc.addImage(image, "PNG", margin, 10, logoWidth, logoHeight);
+
+  doc.setFontSize(16);
+  doc.setTextColor("#25515c");
+  doc.text("Relatório de Propostas", pageWidth - margin, 16, { align: "right" });
+  doc.setFontSize(9);
+  doc.setTextColor("#64748b");
+  doc.text(`Gerado em ${new Date().toLocaleString("pt-BR")}`, pageWidth - margin, 22, { align: "right" });
+
+  // Mesmos totais do Dashboard, calculados sobre a lista exportada
+  const stats = getProposalStats(proposals);
+  const summary = [
+    ["Total de Propostas", String(stats.totalProposals)],
+    ["Aprovadas", String(stats.approvedProposals)],
+    ["Recusadas", String(stats.rejectedProposals)],
+    ["Em Aberto", String(stats.pendingProposals)],
+    ["Valor Total", formatCurrency(stats.totalValue)],
+    ["Valor Aprovado", formatCurrency(stats.approvedValue)],
+  ];
+
+  autoTable(doc, {
+    startY: 30,
+    head: [summary.map(([label]) => label)],
+    body: [summary.map(([, value]) => value)],
+    theme: "grid",
+    headStyles: { fillColor: "#0e6e7c" },
+    bodyStyles: { fontStyle: "bold", halign: "center" },
+    margin: { left: margin, right: margin },
+  });
+
+  autoTable(doc, {
+    head: [headers],
+    body: proposals.map((p) => [
+      p.clientName,
+      formatDate(p.sentDate),
+      p.sentVia ? channelLabels[p.sentVia] : "-",
+      formatCurrency(p.value),
+      statusLabels[p.status],
+      formatDate(p.lastFollowUp),
+      formatDate(p.expectedReturnDate),
+      p.notes || "",
+    ]),
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: "#25515c" },
+    alternateRowStyles: { fillColor: "#E4F4F0" },
+    columnStyles: { 3: { halign: "right" }, 7: { cellWidth: 70 } },
+    margin: { left: margin, right: margin },
+    didDrawPage: () => {
+      doc.setFontSize(8);
+      doc.setTextColor("#64748b");
+      doc.text(
+        `Página ${doc.getNumberOfPages()}`,
+        pageWidth - margin,
+        doc.internal.pageSize.getHeight() - 8,
+        { align: "right" }
+      );
+    },
+  });
+
+  doc.save(fileName("pdf"));
+};
@@ -0,0 +1,58 @@
+import { ProposalStatus } from "@/types/proposal";
+import { getWinProbability, isOpenStatus, openStatuses } from "@/lib/proposal-status";
+import { fetchPipelineForecast } from "@/lib/proposals-api";
+
+type ForecastRow = Awaited<ReturnType<typeof fetchPipelineForecast>>[number];
+
+export type ForecastMonth = { key: string; label: string } & Partial<Record<ProposalStatus, number>>;
+
+export interface PipelineForecast {
+  openValue: number; // Valor bruto das propostas em aberto
+  weightedValue: number; // Valor x probabilidade de ganho
+  undatedWeightedValue: number; // Parte do ponderado sem retorno previsto (fora do gráfico)
+  months: ForecastMonth[];
+  statuses: ProposalStatus[]; // Status em aberto que aparecem no gráfico, na ordem do funil
+}
+
+export const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+/**
+ * Receita esperada por mês de retorno previsto, empilhada por status, para os próximos
+ * `monthsAhead` meses. Retornos já vencidos e ainda em aberto entram no mês atual.
+ */
+export const buildPipelineForecast = (rows: ForecastRow[], monthsAhead = 6): PipelineForecast => {
+  const today = new Date();
+  const months: ForecastMonth[] = Array.from({ length: monthsAhead }, (_, i) => {
+    const date = new Date(today.getFullYear(), today.getMonth() + i, 1);
+    const label = date.toLocaleDateString("pt-BR", { month: "short", year: "2-digit" });
+    return { key: monthKey(date), label };
+  });
+  const currentKey = months[0].key;
+
+  const forecast: PipelineForecast = {
+    openValue: 0,
+    weightedValue: 0,
+    undatedWeightedValue: 0,
+    months,
+    statuses: openStatuses,
+  };
+
+  rows
+    .filter((row) => isOpenStatus(row.status))
+    .forEach((row) => {
+      const weighted = (row.totalValue * getWinProbability(row.status, row.winProbability)) / 100;
+      forecast.openValue += row.totalValue;
+      forecast.weightedValue += weighted;
+
+      if (!row.month) {
+        forecast.undatedWeightedValue += weighted;
+        return;
+      }
+
+      const key = monthKey(row.month) < currentKey ? currentKey : monthKey(row.month);
+      const month = months.find((m) => m.key === key);
+      if (month) month[row.status] = (month[row.status] ?? 0) + weighted;
+    });
+
+  return forecast;
+};
@@ -0,0 +1,173 @@
+import ExcelJS from "exceljs";
+import Papa from "papaparse";
+import { ProposalChannel, ProposalStatus, sentViaOptions } from "@/types/proposal";
+import { ProposalFormValues } from "@/lib/proposal-schema";
+
+export type ImportField = keyof Omit<ProposalFormValues, "clientId" | "ownerId">;
+
+export type SpreadsheetRow = Record<string, unknown>;
+
+// Campos da proposta que podem receber uma coluna da planilha
+export const importFields: { field: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: "clientName", label: "Cliente", required: true, aliases: ["cliente", "client", "nome", "empresa"] },
+  { field: "sentDate", label: "Data de Envio", required: true, aliases: ["data envio", "data de envio", "envio", "data", "sent date"] },
+  { field: "value", label: "Valor (R$)", required: true, aliases: ["valor", "value", "preco", "total"] },
+  { field: "status", label: "Status", aliases: ["status", "situacao"] },
+  { field: "sentVia", label: "Enviado por", aliases: ["via", "enviado por", "canal", "meio"] },
+  { field: "expectedReturnDate", label: "Previsão de Retorno", aliases: ["previsao", "previsao de retorno", "retorno", "expected return"] },
+  { field: "notes", label: "Observações", aliases: ["observacoes", "obs", "notas", "notes"] },
+];
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+const normalizeText = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+
+// Valor simples de uma célula do ExcelJS (fórmulas viram o resultado, textos ricos o texto)
+const toCellValue = (value: ExcelJS.CellValue): unknown => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date || typeof value !== "object") return value;
+  if ("result" in value) return toCellValue(value.result as ExcelJS.CellValue);
+  if ("richText" in value) return value.richText.map((part) => part.text).join("");
+  if ("text" in value) return value.text;
+  return "";
+};
+
+const parseXlsx = async (file: File) => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const headerRow = sheet.getRow(1);
+  const headers: string[] = [];
+  headerRow.eachCell((cell, col) => {
+    headers[col - 1] = String(toCellValue(cell.value)).trim();
+  });
+
+  const rows: SpreadsheetRow[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const entry: SpreadsheetRow = {};
+    headers.forEach((header, index) => {
+      if (header) entry[header] = toCellValue(row.getCell(index + 1).value);
+    });
+    rows.push(entry);
+  });
+
+  return { headers: headers.filter(Boolean), rows };
+};
+
+/**
+ * Lê CSV ou XLSX no navegador. CSV é lido como texto cru para não interpretar
+ * "05/12/2024" como data americana ou "1.234,56" como número.
+ */
+export const parseSpreadsheet = async (file: File) => {
+  if (!file.name.toLowerCase().endsWith(".csv")) return parseXlsx(file);
+
+  // Separador detectado automaticamente ("," ou ";" do Excel pt-BR)
+  const { data, meta } = Papa.parse<SpreadsheetRow>(await file.text(), { header: true, skipEmptyLines: "greedy" });
+  return { headers: meta.fields ?? [], rows: data };
+};
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  for (const { field, aliases } of importFields) {
+    const match = headers.find((header) => aliases.includes(normalizeText(header)));
+    if (match) mapping[field] = match;
+  }
+  return mapping;
+};
+
+// --- NORMALIZAÇÃO DE CÉLULAS (formatos pt-BR) ---
+
+const toIsoDate = (date: Date) => date.toISOString().split("T")[0];
+
+export const normalizeDate = (cell: unknown): string => {
+  if (cell instanceof Date) return isNaN(cell.getTime()) ? "" : toIsoDate(cell);
+
+  const text = String(cell ?? "").trim();
+  if (!text) return "";
+
+  // dd/mm/aaaa ou dd-mm-aaaa
+  const br = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})$/);
+  if (br) {
+    const [, day, month, year] = br;
+    const fullYear = year.length === 2 ? `20${year}` : year;
+    return `${fullYear}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  }
+
+  return text;
+};
+
+export const normalizeNumber = (cell: unknown): string => {
+  if (typeof cell === "number") return String(cell);
+
+  const text = String(cell ?? "").replace(/R\$|\s/g, "");
+  if (!text) return "";
+
+  // "1.234,56" -> "1234.56"; "1234.56" fica como está
+  return text.includes(",") ? text.replace(/\./g, "").replace(",", ".") : text;
+};
+
+const statusAliases: Record<string, ProposalStatus> = {
+  pending: "pending",
+  aguardando: "pending",
+  pendente: "pending",
+  approved: "approved",
+  aprovada: "approved",
+  aprovado: "approved",
+  rejected: "rejected",
+  recusada: "rejected",
+  recusado: "rejected",
+  draft: "draft",
+  rascunho: "draft",
+  sent: "sent",
+  enviada: "sent",
+  enviado: "sent",
+  negotiating: "negotiating",
+  negociacao: "negotiating",
+  "em negociacao": "negotiating",
+  negociando: "negotiating",
+  expired: "expired",
+  expirada: "expired",
+  vencida: "expired",
+  cancelled: "cancelled",
+  cancelada: "cancelled",
+  cancelado: "cancelled",
+};
+
+export const normalizeStatus = (cell: unknown): string => {
+  const text = normalizeText(String(cell ?? ""));
+  if (!text) return "pending";
+  return statusAliases[text] ?? text;
+};
+
+export const normalizeSentVia = (cell: unknown): ProposalChannel | undefined => {
+  const text = normalizeText(String(cell ?? ""));
+  if (!text) return undefined;
+  const option = sentViaOptions.find(
+    (o) => normalizeText(o.value) === text || normalizeText(o.label) === text
+  );
+  return option?.value ?? "other";
+};
+
+/** Monta os valores de formulário de uma linha, prontos para o proposalSchema. */
+export const rowToFormValues = (row: SpreadsheetRow, mapping: ColumnMapping) => {
+  const cell = (field: ImportField) => (mapping[field] ? row[mapping[field]] : undefined);
+
+  return {
+    clientName: String(cell("clientName") ?? "").trim(),
+    sentDate: normalizeDate(cell("sentDate")),
+    value: normalizeNumber(cell("value")),
+    status: normalizeStatus(cell("status")),
+    sentVia: normalizeSentVia(cell("sentVia")),
+    expectedReturnDate: normalizeDate(cell("expectedReturnDate")) || undefined,
+    notes: String(cell("notes") ?? "").trim(),
+  };
+};
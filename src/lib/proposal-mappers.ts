@@ -0,0 +1,97 @@
+import { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import {
+  FollowUp,
+  FollowUpOutcome,
+  LossDetails,
+  Proposal,
+  ProposalAttachment,
+  ProposalStatus,
+  StatusChange,
+} from "@/types/proposal";
+
+// Conversão entre as linhas do Supabase (snake_case, datas em ISO) e os tipos do app
+
+export const toProposal = (row: Tables<"proposals">): Proposal => ({
+  id: row.id,
+  ownerId: row.owner_id ?? undefined,
+  clientId: row.client_id ?? undefined,
+  clientName: row.client_name,
+  sentDate: new Date(row.sent_date),
+  value: Number(row.value),
+  status: row.status,
+  sentVia: row.sent_via ?? undefined,
+  lastFollowUp: new Date(row.last_follow_up),
+  expectedReturnDate: row.expected_return_date ? new Date(row.expected_return_date) : undefined,
+  winProbability: row.win_probability ?? undefined,
+  notes: row.notes ?? "",
+  lossReason: row.loss_reason ?? undefined,
+  lossCompetitor: row.loss_competitor ?? undefined,
+  lossNotes: row.loss_notes ?? undefined,
+  deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
+});
+
+/** Motivo da perda só existe em proposta recusada; em qualquer outro status é limpo. */
+export const toLossColumns = (status: ProposalStatus, loss?: LossDetails) => {
+  const isRejected = status === "rejected";
+  return {
+    loss_reason: (isRejected && loss?.lossReason) || null,
+    loss_competitor: (isRejected && loss?.lossCompetitor?.trim()) || null,
+    loss_notes: (isRejected && loss?.lossNotes?.trim()) || null,
+  } satisfies TablesUpdate<"proposals">;
+};
+
+/**
+ * Campos que o usuário edita. last_follow_up fica de fora: é mantido pelo histórico
+ * de follow-ups e só é enviado na criação (ver toProposalInsert). Sem responsável, owner_id
+ * vai como null (o admin pode deixar a proposta sem responsável).
+ */
+export const toProposalUpdate = (proposal: Omit<Proposal, "id">) => ({
+  client_id: proposal.clientId ?? null,
+  client_name: proposal.clientName,
+  sent_date: proposal.sentDate.toISOString(),
+  value: proposal.value,
+  status: proposal.status,
+  sent_via: proposal.sentVia ?? null,
+  expected_return_date: proposal.expectedReturnDate?.toISOString() ?? null,
+  win_probability: proposal.winProbability ?? null,
+  notes: proposal.notes || null,
+  ...toLossColumns(proposal.status, proposal),
+  owner_id: proposal.ownerId ?? null,
+}) satisfies TablesUpdate<"proposals">;
+
+/** Na criação, sem responsável escolhido vale o padrão do banco (quem cria). */
+export const toProposalInsert = (proposal: Omit<Proposal, "id">): TablesInsert<"proposals"> => {
+  const { owner_id, ...columns } = toProposalUpdate(proposal);
+  return {
+    ...columns,
+    ...(owner_id && { owner_id }),
+    last_follow_up: proposal.lastFollowUp.toISOString(),
+  };
+};
+
+export const toFollowUp = (row: Tables<"proposal_follow_ups">): FollowUp => ({
+  id: row.id,
+  proposalId: row.proposal_id,
+  contactedAt: new Date(row.contacted_at),
+  channel: row.channel ?? undefined,
+  outcome: row.outcome as FollowUpOutcome,
+  note: row.note ?? "",
+});
+
+export const toStatusChange = (row: Tables<"proposal_status_changes">): StatusChange => ({
+  id: row.id,
+  fromStatus: row.from_status ?? undefined,
+  toStatus: row.to_status,
+  changedBy: row.changed_by ?? undefined,
+  changedAt: new Date(row.changed_at),
+});
+
+export const toProposalAttachment = (row: Tables<"proposal_attachments">): ProposalAttachment => ({
+  id: row.id,
+  proposalId: row.proposal_id,
+  fileName: row.file_name,
+  storagePath: row.storage_path,
+  size: Number(row.size_bytes),
+  contentType: row.content_type ?? undefined,
+  createdAt: new Date(row.created_at),
+});
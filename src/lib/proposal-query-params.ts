@@ -0,0 +1,65 @@
+import { Constants } from "@/integrations/supabase/types";
+import { ProposalQuery, StatusFilter, defaultProposalQuery, sortFields } from "@/lib/proposals-api";
+
+// Nomes curtos dos parâmetros na URL (ex.: ?status=pending&min=50000&de=2025-07-01)
+const params = {
+  search: "busca",
+  dateStart: "de",
+  dateEnd: "ate",
+  valueMin: "min",
+  valueMax: "max",
+  status: "status",
+  sentVia: "canal",
+  ownerId: "responsavel",
+  sortField: "ordem",
+  sortDirection: "dir",
+  page: "pagina",
+} satisfies Record<keyof ProposalQuery, string>;
+
+const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+const isUuid = (value: string) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+const isNumber = (value: string) => value.trim() !== "" && !isNaN(Number(value));
+const oneOf = <T extends string>(options: readonly T[], value: string | null) =>
+  options.includes(value as T) ? (value as T) : undefined;
+
+/** Só grava o que difere do padrão, para o link ficar curto. */
+export const toSearchParams = (query: ProposalQuery) => {
+  const search = new URLSearchParams();
+  const set = (key: keyof ProposalQuery, value: string) => value && search.set(params[key], value);
+
+  set("search", query.search);
+  set("dateStart", query.dateStart);
+  set("dateEnd", query.dateEnd);
+  set("valueMin", query.valueMin);
+  set("valueMax", query.valueMax);
+  set("status", query.status);
+  set("sentVia", query.sentVia);
+  set("ownerId", query.ownerId);
+  if (query.sortField) {
+    set("sortField", query.sortField);
+    set("sortDirection", query.sortDirection);
+  }
+  if (query.page > 1) set("page", String(query.page));
+
+  return search;
+};
+
+/** Lê a consulta da URL; valores inválidos (link editado à mão) voltam ao padrão. */
+export const fromSearchParams = (search: URLSearchParams): ProposalQuery => {
+  const get = (key: keyof ProposalQuery) => search.get(params[key]) ?? "";
+  const page = Number(get("page"));
+
+  return {
+    search: get("search"),
+    dateStart: isDate(get("dateStart")) ? get("dateStart") : "",
+    dateEnd: isDate(get("dateEnd")) ? get("dateEnd") : "",
+    valueMin: isNumber(get("valueMin")) ? get("valueMin") : "",
+    valueMax: isNumber(get("valueMax")) ? get("valueMax") : "",
+    status: oneOf<StatusFilter>([...Constants.public.Enums.proposal_status, "open"], get("status")) ?? "",
+    sentVia: oneOf(Constants.public.Enums.proposal_channel, get("sentVia")) ?? "",
+    ownerId: isUuid(get("ownerId")) ? get("ownerId") : "",
+    sortField: oneOf(sortFields, get("sortField")) ?? defaultProposalQuery.sortField,
+    sortDirection: oneOf(["asc", "desc"] as const, get("sortDirection")) ?? defaultProposalQuery.sortDirection,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+};
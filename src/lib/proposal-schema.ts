@@ -0,0 +1,36 @@
+import * as z from "zod";
+import { Constants } from "@/integrations/supabase/types";
+
+// Usado pelo ProposalDialog e pela importação de planilhas
+export const proposalSchema = z.object({
+  clientId: z.string().optional(),
+  clientName: z.string().min(1, "Nome do cliente é obrigatório"),
+  sentDate: z
+    .string()
+    .min(1, "Data de envio é obrigatória")
+    .refine((value) => !isNaN(Date.parse(value)), "Data de envio inválida"),
+  value: z.coerce.number().min(0, "Valor deve ser maior que zero"),
+  status: z.enum(Constants.public.Enums.proposal_status),
+  sentVia: z.enum(["email", "whatsapp", "other"]).optional(),
+  expectedReturnDate: z
+    .string()
+    .optional()
+    .refine((value) => !value || !isNaN(Date.parse(value)), "Previsão de retorno inválida"),
+  notes: z.string(),
+  // Vazio = usa a probabilidade padrão do status
+  winProbability: z
+    .string()
+    .optional()
+    .refine(
+      (value) => !value || (/^\d+$/.test(value) && Number(value) <= 100),
+      "Informe um número inteiro de 0 a 100"
+    ),
+  // Motivo da perda: obrigatório ao recusar pelo formulário (checado no ProposalDialog,
+  // já que planilhas antigas importadas não têm essa informação)
+  lossReason: z.string().optional(),
+  lossCompetitor: z.string().optional(),
+  lossNotes: z.string().optional(),
+  ownerId: z.string().optional(), // Vendedor responsável (só pelo formulário)
+});
+
+export type ProposalFormValues = z.infer<typeof proposalSchema>;
@@ -0,0 +1,18 @@
+import { Proposal } from "@/types/proposal";
+import { isOpenStatus } from "@/lib/proposal-status";
+
+// Totais exibidos no Dashboard e no topo do relatório em PDF
+export const getProposalStats = (proposals: Proposal[]) => {
+  const approved = proposals.filter((p) => p.status === "approved");
+
+  return {
+    totalProposals: proposals.length,
+    approvedProposals: approved.length,
+    rejectedProposals: proposals.filter((p) => p.status === "rejected").length,
+    pendingProposals: proposals.filter((p) => isOpenStatus(p.status)).length, // Em aberto: enviada, aguardando, em negociação
+    totalValue: proposals.reduce((sum, p) => sum + p.value, 0),
+    approvedValue: approved.reduce((sum, p) => sum + p.value, 0),
+  };
+};
+
+export type ProposalStats = ReturnType<typeof getProposalStats>;
@@ -0,0 +1,50 @@
+import { ProposalStatus, statusLabels } from "@/types/proposal";
+
+export const proposalStatuses = Object.keys(statusLabels) as ProposalStatus[];
+
+/**
+ * Máquina de estados do ciclo de vida da proposta: para onde cada status pode ir.
+ * Status encerrados (aprovada, recusada, expirada, cancelada) só voltam ao fluxo
+ * reabrindo, nunca pulando direto para outro desfecho.
+ * O trigger check_proposal_status_transition repete estas regras no banco.
+ */
+export const statusTransitions: Record<ProposalStatus, ProposalStatus[]> = {
+  draft: ["sent", "cancelled"],
+  sent: ["pending", "negotiating", "approved", "rejected", "expired", "cancelled"],
+  pending: ["negotiating", "approved", "rejected", "expired", "cancelled"],
+  negotiating: ["pending", "approved", "rejected", "expired", "cancelled"],
+  approved: ["negotiating", "cancelled"],
+  rejected: ["pending"],
+  expired: ["sent", "pending"],
+  cancelled: ["draft"],
+};
+
+// Propostas com o cliente, esperando resposta: entram no follow-up e na Inbox
+export const openStatuses: ProposalStatus[] = ["sent", "pending", "negotiating"];
+
+export const isOpenStatus = (status: ProposalStatus) => openStatuses.includes(status);
+
+export const canTransition = (from: ProposalStatus, to: ProposalStatus) =>
+  from === to || statusTransitions[from].includes(to);
+
+/** Status de onde se pode chegar a `to` (usado para filtrar atualizações em massa no banco). */
+export const sourceStatusesFor = (to: ProposalStatus) =>
+  proposalStatuses.filter((from) => statusTransitions[from].includes(to));
+
+// Chance de fechar (%) usada no pipeline ponderado quando a proposta não define a sua
+export const defaultWinProbability: Record<ProposalStatus, number> = {
+  draft: 10,
+  sent: 20,
+  pending: 30,
+  negotiating: 60,
+  approved: 100,
+  rejected: 0,
+  expired: 0,
+  cancelled: 0,
+};
+
+export const getWinProbability = (status: ProposalStatus, winProbability?: number | null) =>
+  winProbability ?? defaultWinProbability[status];
+
+export const transitionError = (from: ProposalStatus, to: ProposalStatus) =>
+  `Não é possível mudar de "${statusLabels[from]}" para "${statusLabels[to]}".`;
@@ -0,0 +1,33 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toProposal } from "@/lib/proposal-mappers";
+
+// Prazo usado enquanto o usuário não configurar o próprio (mesmo padrão da coluna no banco)
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** Propostas na lixeira, da exclusão mais recente para a mais antiga. */
+export const fetchDeletedProposals = async () => {
+  const { data, error } = await supabase.rpc("get_deleted_proposals");
+  if (error) throw error;
+  return data.map(toProposal);
+};
+
+export const restoreProposals = async (ids: string[]) => {
+  const { error } = await supabase.rpc("restore_proposals", { ids });
+  if (error) throw error;
+};
+
+/** Exclui de vez; os anexos vão para a fila de arquivos a apagar do Storage. */
+export const purgeProposals = async (ids: string[]) => {
+  const { error } = await supabase.rpc("purge_proposals", { ids });
+  if (error) throw error;
+
+  // Apaga os arquivos agora; se falhar, a limpeza diária (pg_cron) tenta de novo
+  const { error: cleanupError } = await supabase.functions.invoke("cleanup-attachment-files");
+  if (cleanupError) console.error(cleanupError);
+};
+
+/** Dias até a limpeza automática (pg_cron, uma vez por dia); 0 = sai na próxima execução. */
+export const getDaysUntilPurge = (deletedAt: Date, retentionDays: number) => {
+  const purgeAt = deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / (1000 * 60 * 60 * 24)));
+};
@@ -0,0 +1,478 @@
+import { format } from "date-fns";
+import { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { LossDetails, Proposal, ProposalChannel, ProposalStatus } from "@/types/proposal";
+import { ProposalStats } from "@/lib/proposal-stats";
+import { FollowUpBand } from "@/types/follow-up-band";
+import {
+  toLossColumns,
+  toProposal,
+  toProposalInsert,
+  toProposalUpdate,
+  toStatusChange,
+} from "@/lib/proposal-mappers";
+import { openStatuses, sourceStatusesFor } from "@/lib/proposal-status";
+
+export type SortField = "status" | "lastFollowUp" | "expectedReturnDate" | "value" | "sentDate" | "clientName";
+export type SortDirection = "asc" | "desc";
+
+// "open" = todos os status em aberto (card "Em Aberto" do Dashboard)
+export type StatusFilter = ProposalStatus | "open" | "";
+
+// Valores crus dos campos de filtro da tabela (strings vazias = sem filtro)
+export interface ProposalFilters {
+  search: string;
+  dateStart: string;
+  dateEnd: string;
+  valueMin: string;
+  valueMax: string;
+  status: StatusFilter;
+  sentVia: ProposalChannel | "";
+  ownerId: string; // Vendedor responsável
+}
+
+// Filtros que o Dashboard e a tabela leem do mesmo estado
+export type SharedFilters = Pick<ProposalFilters, "dateStart" | "dateEnd" | "status" | "sentVia">;
+
+// Os totais já vêm separados por status, então só período e canal se aplicam a eles
+export type TotalsFilters = Omit<SharedFilters, "status">;
+
+export interface ProposalQuery extends ProposalFilters {
+  sortField: SortField | null;
+  sortDirection: SortDirection;
+  page: number;
+}
+
+export const PAGE_SIZE = 100;
+
+export const defaultProposalQuery: ProposalQuery = {
+  search: "",
+  dateStart: "",
+  dateEnd: "",
+  valueMin: "",
+  valueMax: "",
+  status: "",
+  sentVia: "",
+  ownerId: "",
+  sortField: null,
+  sortDirection: "asc",
+  page: 1,
+};
+
+const sortColumns: Record<SortField, keyof Tables<"proposals">> = {
+  status: "status", // enum ordena na ordem de declaração (draft, sent, pending, ...; ver statusLabels)
+  lastFollowUp: "last_follow_up",
+  expectedReturnDate: "expected_return_date",
+  value: "value",
+  sentDate: "sent_date",
+  clientName: "client_name",
+};
+
+export const sortFields = Object.keys(sortColumns) as SortField[];
+
+/** Busca e filtros da tabela, sem ordenação. */
+const buildFilteredQuery = <Columns extends string = "*">(
+  query: ProposalQuery,
+  columns = "*" as Columns,
+  options: { head?: boolean } = {}
+) => {
+  let request = supabase.from("proposals").select(columns, { count: "exact", ...options });
+
+  if (query.search) {
+    // Escapa os curingas do LIKE para buscar o texto literal
+    const term = query.search.replace(/[%_\\]/g, "\\$&");
+    request = request.ilike("client_name", `%${term}%`);
+  }
+  if (query.dateStart) request = request.gte("sent_date", query.dateStart);
+  if (query.dateEnd) request = request.lte("sent_date", `${query.dateEnd}T23:59:59.999Z`);
+  if (query.valueMin) request = request.gte("value", Number(query.valueMin));
+  if (query.valueMax) request = request.lte("value", Number(query.valueMax));
+  if (query.status) request = request.in("status", query.status === "open" ? openStatuses : [query.status]);
+  if (query.sentVia) request = request.eq("sent_via", query.sentVia);
+  if (query.ownerId) request = request.eq("owner_id", query.ownerId);
+
+  return request;
+};
+
+// Sem ordenação escolhida, as mais recentes primeiro
+const getSortColumn = (query: ProposalQuery) =>
+  query.sortField
+    ? { column: sortColumns[query.sortField], ascending: query.sortDirection === "asc" }
+    : { column: "sent_date" as const, ascending: false };
+
+const buildQuery = <Columns extends string = "*">(query: ProposalQuery, columns = "*" as Columns) => {
+  const { column, ascending } = getSortColumn(query);
+
+  // Sem previsão de retorno fica por último no crescente, como era na ordenação local.
+  // Desempate estável para a paginação não repetir nem pular linhas.
+  return buildFilteredQuery(query, columns)
+    .order(column, { ascending, nullsFirst: !ascending })
+    .order("id");
+};
+
+export const fetchProposalsPage = async (query: ProposalQuery) => {
+  const from = (query.page - 1) * PAGE_SIZE;
+  const { data, error, count } = await buildQuery(query).range(from, from + PAGE_SIZE - 1);
+
+  if (error) throw error;
+
+  return { proposals: data.map(toProposal), totalCount: count ?? 0 };
+};
+
+type ChunkResult = PromiseLike<{ data: Tables<"proposals">[] | null; error: PostgrestError | null }>;
+
+const fetchInChunks = async (fetchRange: (from: number, to: number) => ChunkResult) => {
+  const chunkSize = 1000; // limite padrão de linhas por requisição do PostgREST
+  const proposals: Proposal[] = [];
+
+  for (let from = 0; ; from += chunkSize) {
+    const { data, error } = await fetchRange(from, from + chunkSize - 1);
+    if (error) throw error;
+
+    proposals.push(...data.map(toProposal));
+    if (data.length < chunkSize) break;
+  }
+
+  return proposals;
+};
+
+/** Todas as linhas que batem com a busca/filtros, na ordem atual (sem paginar). */
+export const fetchAllProposals = (query: ProposalQuery) =>
+  fetchInChunks((from, to) => buildQuery(query).range(from, to));
+
+export const fetchProposal = async (id: string) => {
+  const { data, error } = await supabase.from("proposals").select("*").eq("id", id).maybeSingle();
+
+  if (error) throw error;
+  return data ? toProposal(data) : null;
+};
+
+// Aspas no valor do filtro: vírgulas, pontos e parênteses de nomes de clientes não quebram o or()
+const quoteFilterValue = (value: string | number) => `"${String(value).replace(/["\\]/g, "\\$&")}"`;
+
+/**
+ * Filtro do PostgREST para as linhas que vêm depois de (value, id) numa ordenação por column
+ * e id. Os nulos ficam no fim do crescente e no início do decrescente, como em buildQuery.
+ */
+const rowsAfterFilter = (
+  column: string,
+  value: string | number | null,
+  id: string,
+  ascending: boolean,
+  idAscending: boolean
+) => {
+  const idFilter = `id.${idAscending ? "gt" : "lt"}.${id}`;
+
+  if (value === null) {
+    return [`and(${column}.is.null,${idFilter})`, ...(ascending ? [] : [`${column}.not.is.null`])].join(",");
+  }
+
+  const quoted = quoteFilterValue(value);
+  return [
+    `${column}.${ascending ? "gt" : "lt"}.${quoted}`,
+    `and(${column}.eq.${quoted},${idFilter})`,
+    ...(ascending ? [`${column}.is.null`] : []),
+  ].join(",");
+};
+
+/**
+ * Anterior e próxima proposta na ordem atual da tabela (mesma busca, filtros e ordenação),
+ * para navegar na página de detalhe. Cada vizinha é a primeira linha depois da atual num sentido;
+ * a posição é a contagem das que vêm antes.
+ */
+export const fetchProposalNeighbors = async (query: ProposalQuery, id: string) => {
+  const { column, ascending } = getSortColumn(query);
+
+  const [{ data: current, error: currentError }, { count: total, error: totalError }] = await Promise.all([
+    buildFilteredQuery(query).eq("id", id).maybeSingle(),
+    buildFilteredQuery(query, "id", { head: true }),
+  ]);
+  if (currentError) throw currentError;
+  if (totalError) throw totalError;
+
+  // Fora dos filtros atuais = sem vizinhas nem posição
+  if (!current) return { previousId: undefined, nextId: undefined, position: undefined, total: total ?? 0 };
+
+  const value = current[column];
+  const neighbor = (forward: boolean) =>
+    buildFilteredQuery(query, "id")
+      .or(rowsAfterFilter(column, value, id, forward === ascending, forward))
+      .order(column, { ascending: forward === ascending, nullsFirst: forward !== ascending })
+      .order("id", { ascending: forward })
+      .limit(1)
+      .maybeSingle();
+
+  const [previous, next, before] = await Promise.all([
+    neighbor(false),
+    neighbor(true),
+    buildFilteredQuery(query, "id", { head: true }).or(rowsAfterFilter(column, value, id, !ascending, false)),
+  ]);
+  if (previous.error) throw previous.error;
+  if (next.error) throw next.error;
+  if (before.error) throw before.error;
+
+  return {
+    previousId: previous.data?.id,
+    nextId: next.data?.id,
+    position: (before.count ?? 0) + 1,
+    total: total ?? 0,
+  };
+};
+
+export const fetchStatusChanges = async (proposalId: string) => {
+  const { data, error } = await supabase
+    .from("proposal_status_changes")
+    .select("*")
+    .eq("proposal_id", proposalId)
+    .order("changed_at", { ascending: false });
+
+  if (error) throw error;
+  return data.map(toStatusChange);
+};
+
+/**
+ * Candidatas da Inbox: em aberto com retorno previsto vencido ou sem contato há mais de
+ * ageLimit dias. O filtro fino (adiadas, contato depois do retorno) é feito em getInboxItems.
+ */
+export const fetchInboxProposals = (ageLimit: number | null) => {
+  const now = new Date();
+  const conditions = [`expected_return_date.lte.${now.toISOString()}`];
+  if (ageLimit !== null) {
+    const limitDate = new Date(now.getTime() - ageLimit * 1000 * 60 * 60 * 24);
+    conditions.push(`last_follow_up.lt.${limitDate.toISOString()}`);
+  }
+
+  return fetchInChunks((from, to) =>
+    supabase
+      .from("proposals")
+      .select("*")
+      .in("status", openStatuses)
+      .or(conditions.join(","))
+      .order("id")
+      .range(from, to)
+  );
+};
+
+export const fetchProposalTotals = async (filters: TotalsFilters): Promise<ProposalStats> => {
+  // Mesmos limites de data da busca da tabela (buildQuery)
+  const { data, error } = await supabase.rpc("get_proposal_totals", {
+    date_start: filters.dateStart || undefined,
+    date_end: filters.dateEnd ? `${filters.dateEnd}T23:59:59.999Z` : undefined,
+    channel: filters.sentVia || undefined,
+  });
+
+  if (error) throw error;
+
+  const byStatus = (status: Proposal["status"]) => data.find((row) => row.status === status);
+
+  return {
+    totalProposals: data.reduce((sum, row) => sum + Number(row.count), 0),
+    approvedProposals: Number(byStatus("approved")?.count ?? 0),
+    rejectedProposals: Number(byStatus("rejected")?.count ?? 0),
+    pendingProposals: data
+      .filter((row) => openStatuses.includes(row.status))
+      .reduce((sum, row) => sum + Number(row.count), 0),
+    totalValue: data.reduce((sum, row) => sum + Number(row.total_value), 0),
+    approvedValue: Number(byStatus("approved")?.total_value ?? 0),
+  };
+};
+
+export interface OwnerTotals {
+  ownerId?: string; // Vazio = propostas sem responsável
+  totalProposals: number;
+  totalValue: number;
+  approvedProposals: number;
+  approvedValue: number;
+  winRate: number; // Aprovadas sobre as já decididas (aprovadas + recusadas), de 0 a 100
+}
+
+/** Quantidade, valor e taxa de ganho por vendedor responsável, com os mesmos filtros dos totais. */
+export const fetchOwnerTotals = async (filters: TotalsFilters): Promise<OwnerTotals[]> => {
+  const { data, error } = await supabase.rpc("get_owner_totals", {
+    date_start: filters.dateStart || undefined,
+    date_end: filters.dateEnd ? `${filters.dateEnd}T23:59:59.999Z` : undefined,
+    channel: filters.sentVia || undefined,
+  });
+
+  if (error) throw error;
+
+  const byOwner = new Map<string | null, typeof data>();
+  data.forEach((row) => byOwner.set(row.owner_id, [...(byOwner.get(row.owner_id) ?? []), row]));
+
+  return [...byOwner].map(([ownerId, rows]) => {
+    const byStatus = (status: Proposal["status"]) => rows.find((row) => row.status === status);
+    const approved = Number(byStatus("approved")?.count ?? 0);
+    const decided = approved + Number(byStatus("rejected")?.count ?? 0);
+
+    return {
+      ownerId: ownerId ?? undefined,
+      totalProposals: rows.reduce((sum, row) => sum + Number(row.count), 0),
+      totalValue: rows.reduce((sum, row) => sum + Number(row.total_value), 0),
+      approvedProposals: approved,
+      approvedValue: Number(byStatus("approved")?.total_value ?? 0),
+      winRate: decided > 0 ? (approved / decided) * 100 : 0,
+    };
+  });
+};
+
+/** Quantas propostas em aberto caem em cada faixa de tempo sem follow-up. */
+export const fetchFollowUpAging = async (bands: FollowUpBand[]) => {
+  const dayMs = 1000 * 60 * 60 * 24;
+  const now = Date.now();
+
+  return Promise.all(
+    bands.map(async (band, index) => {
+      const previous = bands[index - 1]?.maxDays;
+      let request = supabase
+        .from("proposals")
+        .select("id", { count: "exact", head: true })
+        .in("status", openStatuses);
+
+      // dias <= limite equivale a follow-up depois de (hoje - limite)
+      if (band.maxDays !== null) request = request.gte("last_follow_up", new Date(now - band.maxDays * dayMs).toISOString());
+      if (previous) request = request.lt("last_follow_up", new Date(now - previous * dayMs).toISOString());
+
+      const { count, error } = await request;
+      if (error) throw error;
+      return count ?? 0;
+    })
+  );
+};
+
+export interface LossBreakdownRow {
+  reason: string;
+  competitor?: string;
+  count: number;
+  totalValue: number;
+}
+
+/** Propostas recusadas agrupadas por motivo e concorrente (painel de perdas). */
+export const fetchLossBreakdown = async (): Promise<LossBreakdownRow[]> => {
+  const { data, error } = await supabase.rpc("get_loss_breakdown");
+
+  if (error) throw error;
+
+  return data.map((row) => ({
+    reason: row.loss_reason ?? "Não informado",
+    competitor: row.loss_competitor ?? undefined,
+    count: Number(row.count),
+    totalValue: Number(row.total_value),
+  }));
+};
+
+export const fetchPipelineForecast = async () => {
+  const { data, error } = await supabase.rpc("get_pipeline_forecast");
+
+  if (error) throw error;
+
+  return data.map((row) => ({
+    month: row.month ? new Date(`${row.month}T00:00:00`) : undefined, // Sem retorno previsto = sem mês
+    status: row.status,
+    winProbability: row.win_probability,
+    count: Number(row.count),
+    totalValue: Number(row.total_value),
+  }));
+};
+
+/** Propostas por mês de envio e status, de `start` até `end` (exclusivo). */
+export const fetchMonthlyStats = async (start: Date, end: Date) => {
+  const { data, error } = await supabase.rpc("get_monthly_stats", {
+    range_start: format(start, "yyyy-MM-dd"),
+    range_end: format(end, "yyyy-MM-dd"),
+  });
+
+  if (error) throw error;
+
+  return data.map((row) => ({
+    month: new Date(`${row.month}T00:00:00`),
+    status: row.status,
+    count: Number(row.count),
+    totalValue: Number(row.total_value),
+  }));
+};
+
+// --- ESCRITA ---
+
+/**
+ * O RLS não dá erro ao barrar um UPDATE ou DELETE: só não afeta a linha. Por isso as escritas
+ * pedem `.select('id')` de volta e passam aqui o que voltou.
+ */
+export const assertAffected = (data: unknown[], message: string) => {
+  if (data.length === 0) throw new Error(message);
+};
+
+export const createProposal = async (proposal: Omit<Proposal, "id">) => {
+  const { error } = await supabase.from('proposals').insert(toProposalInsert(proposal));
+
+  if (error) throw error;
+};
+
+export const updateProposal = async (proposal: Proposal) => {
+  const { data, error } = await supabase
+    .from('proposals')
+    .update(toProposalUpdate(proposal))
+    .eq('id', proposal.id)
+    .select('id');
+
+  if (error) throw error;
+  assertAffected(data, 'Sem permissão para alterar a proposta');
+};
+
+/** Adia o retorno previsto; a proposta some da Inbox até essa data. */
+export const snoozeProposal = async (id: string, until: Date) => {
+  const { data, error } = await supabase
+    .from('proposals')
+    .update({ expected_return_date: until.toISOString() })
+    .eq('id', id)
+    .select('id');
+
+  if (error) throw error;
+  assertAffected(data, 'Sem permissão para alterar a proposta');
+};
+
+/** Contato rápido (Inbox): o trigger do histórico atualiza last_follow_up da proposta. */
+export const registerContactToday = async (proposalId: string) => {
+  const { error } = await supabase.from('proposal_follow_ups').insert({
+    proposal_id: proposalId,
+    contacted_at: new Date().toISOString(),
+    outcome: 'contacted',
+  });
+
+  if (error) throw error;
+};
+
+/** Move para a lixeira (ver lib/proposal-trash); some das consultas pelo RLS de SELECT. */
+export const deleteProposal = async (id: string) => {
+  const { error } = await supabase.rpc('soft_delete_proposals', { ids: [id] });
+  if (error) throw error;
+};
+
+/**
+ * Só altera as propostas cujo status atual permite ir para newStatus (ver statusTransitions);
+ * o filtro roda no banco, então vale mesmo se a lista na tela estiver desatualizada.
+ * Ao recusar, grava também o motivo da perda. Devolve os ids realmente alterados.
+ */
+export const updateProposalsStatus = async (ids: string[], newStatus: Proposal["status"], loss?: LossDetails) => {
+  const { data, error } = await supabase
+    .from('proposals')
+    .update({ status: newStatus, ...toLossColumns(newStatus, loss) })
+    .in('id', ids)
+    .in('status', sourceStatusesFor(newStatus))
+    .select('id');
+
+  if (error) throw error;
+  return data.map((row) => row.id);
+};
+
+/** Troca o vendedor responsável (só admins; o RLS ignora as demais). Devolve os ids alterados. */
+export const reassignProposals = async (ids: string[], ownerId: string) => {
+  const { data, error } = await supabase
+    .from('proposals')
+    .update({ owner_id: ownerId })
+    .in('id', ids)
+    .select('id');
+
+  if (error) throw error;
+  return data.map((row) => row.id);
+};
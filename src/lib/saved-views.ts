@@ -0,0 +1,28 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface SavedView {
+  id: string;
+  name: string;
+  queryString: string; // Mesmo formato da URL da tabela (ver proposal-query-params)
+}
+
+export const fetchSavedViews = async (): Promise<SavedView[]> => {
+  const { data, error } = await supabase.from("saved_views").select("id, name, query_string").order("name");
+
+  if (error) throw error;
+  return data.map((row) => ({ id: row.id, name: row.name, queryString: row.query_string }));
+};
+
+/** Cria a visão ou, se já existir uma com o mesmo nome, troca os filtros dela. */
+export const saveView = async ({ name, queryString }: Omit<SavedView, "id">) => {
+  const { error } = await supabase
+    .from("saved_views")
+    .upsert({ name: name.trim(), query_string: queryString }, { onConflict: "user_id,name" });
+
+  if (error) throw error;
+};
+
+export const deleteView = async (id: string) => {
+  const { error } = await supabase.from("saved_views").delete().eq("id", id);
+  if (error) throw error;
+};
@@ -0,0 +1,25 @@
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_TRASH_RETENTION_DAYS } from "@/lib/proposal-trash";
+
+export interface UserSettings {
+  trashRetentionDays: number; // Dias na lixeira antes da exclusão definitiva automática
+}
+
+export const fetchUserSettings = async (): Promise<UserSettings> => {
+  const { data, error } = await supabase.from("user_settings").select("*").maybeSingle();
+
+  if (error) throw error;
+  return { trashRetentionDays: data?.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS };
+};
+
+/** A linha do usuário só é criada no primeiro salvamento. */
+export const saveUserSettings = async (settings: UserSettings) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Sessão expirada");
+
+  const { error } = await supabase
+    .from("user_settings")
+    .upsert({ user_id: user.id, trash_retention_days: settings.trashRetentionDays });
+
+  if (error) throw error;
+};
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { AuthLayout } from "@/components/AuthLayout";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { AcceptInviteFormValues, acceptInviteSchema } from "@/lib/auth-schema";
+import { acceptInvite, getAuthErrorMessage, getUrlAuthError } from "@/lib/auth";
+import { useSession } from "@/hooks/use-session";
+
+// Destino do e-mail de convite (o cadastro só existe por convite): completa a conta criada pelo convite
+const AcceptInvite = () => {
+  const navigate = useNavigate();
+  const { session, isLoading } = useSession();
+  // Lido na abertura: o cliente do Supabase limpa a URL depois de processar o link
+  const [linkError] = useState(getUrlAuthError);
+  const form = useForm<AcceptInviteFormValues>({
+    resolver: zodResolver(acceptInviteSchema),
+    defaultValues: { fullName: "", password: "", confirmPassword: "" },
+  });
+
+  const onSubmit = async ({ fullName, password }: AcceptInviteFormValues) => {
+    try {
+      await acceptInvite(fullName, password);
+      toast.success("Conta criada! Bem-vindo.");
+      navigate("/", { replace: true });
+    } catch (error) {
+      console.error(error);
+      form.setError("root", { message: getAuthErrorMessage(error, "Não foi possível concluir o cadastro.") });
+    }
+  };
+
+  if (isLoading) return null;
+
+  return (
+    <AuthLayout
+      title="Aceitar convite"
+      description={session?.user.email ? `Complete o cadastro de ${session.user.email}` : "Complete seu cadastro"}
+    >
+      {!session ? (
+        <div className="mt-8 space-y-4 text-center">
+          <p className="text-sm font-medium text-destructive">
+            {linkError ?? "Convite inválido ou expirado. Peça um novo convite ao administrador."}
+          </p>
+          <Button asChild variant="outline" className="w-full">
+            <Link to="/login">Ir para o login</Link>
+          </Button>
+        </div>
+      ) : (
+        <Form {...form}>
+          <form className="mt-8 space-y-6" onSubmit={form.handleSubmit(onSubmit)}>
+            <div className="space-y-4">
+              <FormField
+                control={form.control}
+                name="fullName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="name" placeholder="Como os colegas vão ver você" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Senha</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirme a senha</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {form.formState.errors.root && (
+              <p className="text-sm font-medium text-destructive">{form.formState.errors.root.message}</p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Criar conta
+            </Button>
+          </form>
+        </Form>
+      )}
+    </AuthLayout>
+  );
+};
+
+export default AcceptInvite;
@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { MonthlyChart } from "@/components/MonthlyChart";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useMonthlyAnalytics } from "@/hooks/use-proposals";
+import {
+  AnalyticsMetric,
+  AnalyticsRange,
+  getDefaultAnalyticsRange,
+  isValidAnalyticsRange,
+} from "@/lib/proposal-analytics";
+import { monthKey } from "@/lib/proposal-forecast";
+import { formatCurrency } from "@/lib/format";
+import logo from "@/assets/logo.png";
+
+type RangePreset = "last6" | "last12" | "thisYear" | "lastYear";
+
+const rangePresets: Record<RangePreset, { label: string; range: () => AnalyticsRange }> = {
+  last6: {
+    label: "Últimos 6 meses",
+    range: () => {
+      const today = new Date();
+      return { from: monthKey(new Date(today.getFullYear(), today.getMonth() - 5, 1)), to: monthKey(today) };
+    },
+  },
+  last12: { label: "Últimos 12 meses", range: getDefaultAnalyticsRange },
+  thisYear: {
+    label: "Este ano",
+    range: () => {
+      const today = new Date();
+      return { from: `${today.getFullYear()}-01`, to: monthKey(today) };
+    },
+  },
+  lastYear: {
+    label: "Ano passado",
+    range: () => {
+      const year = new Date().getFullYear() - 1;
+      return { from: `${year}-01`, to: `${year}-12` };
+    },
+  },
+};
+
+/** Variação contra o ano anterior; sem base de comparação quando o ano anterior é zero. */
+const formatChange = (current: number, previous: number) => {
+  if (previous === 0) return current === 0 ? "Igual ao ano anterior" : "Sem dados no ano anterior";
+  const change = ((current - previous) / previous) * 100;
+  return `${change >= 0 ? "+" : ""}${change.toFixed(0)}% vs. ano anterior`;
+};
+
+const formatRate = (rate: number | null) => (rate === null ? "-" : `${rate.toFixed(0)}%`);
+
+const Analytics = () => {
+  const navigate = useNavigate();
+  const [range, setRange] = useState<AnalyticsRange>(getDefaultAnalyticsRange);
+  const [preset, setPreset] = useState<RangePreset | "custom">("last12");
+  const [metric, setMetric] = useState<AnalyticsMetric>("count");
+  const [compare, setCompare] = useState(true);
+
+  const isValidRange = isValidAnalyticsRange(range);
+  const analyticsQuery = useMonthlyAnalytics(range, isValidRange);
+  const analytics = analyticsQuery.data;
+
+  // Página restrita: sem sessão, volta para a tela de login
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) navigate("/login");
+    });
+  }, [navigate]);
+
+  const handlePresetChange = (value: string) => {
+    setPreset(value as RangePreset);
+    setRange(rangePresets[value as RangePreset].range());
+  };
+
+  // Editar as datas à mão tira o período dos atalhos
+  const handleRangeChange = (field: keyof AnalyticsRange, value: string) => {
+    setPreset("custom");
+    setRange({ ...range, [field]: value });
+  };
+
+  const summaryCards = analytics && [
+    {
+      title: "Propostas enviadas",
+      value: analytics.summary.total.toString(),
+      change: formatChange(analytics.summary.total, analytics.previousSummary.total),
+    },
+    {
+      title: "Valor enviado",
+      value: formatCurrency(analytics.summary.totalValue),
+      change: formatChange(analytics.summary.totalValue, analytics.previousSummary.totalValue),
+    },
+    {
+      title: "Aprovadas",
+      value: `${analytics.summary.won} (${formatCurrency(analytics.summary.wonValue)})`,
+      change: formatChange(analytics.summary.won, analytics.previousSummary.won),
+    },
+    {
+      title: "Taxa de conversão",
+      value: formatRate(analytics.summary.winRate),
+      change: `${formatRate(analytics.previousSummary.winRate)} no ano anterior`,
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-6 py-6 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="icon" asChild title="Voltar">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground">Análises</h1>
+              <p className="mt-1 text-sm text-muted-foreground">Propostas por mês de envio</p>
+            </div>
+          </div>
+          <img src={logo} alt="Complementare Logo" className="h-10 w-auto object-contain" />
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-8">
+        {/* PERÍODO E OPÇÕES DO GRÁFICO */}
+        <Card className="p-6 border-slate-200 shadow-sm">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Período</Label>
+              <Select value={preset} onValueChange={handlePresetChange}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(rangePresets).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom" disabled>
+                    Personalizado
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="analytics-from">De</Label>
+              <Input
+                id="analytics-from"
+                type="month"
+                value={range.from}
+                onChange={(e) => handleRangeChange("from", e.target.value)}
+                className="w-44"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="analytics-to">Até</Label>
+              <Input
+                id="analytics-to"
+                type="month"
+                value={range.to}
+                onChange={(e) => handleRangeChange("to", e.target.value)}
+                className="w-44"
+              />
+            </div>
+            <Tabs value={metric} onValueChange={(value) => setMetric(value as AnalyticsMetric)}>
+              <TabsList>
+                <TabsTrigger value="count">Quantidade</TabsTrigger>
+                <TabsTrigger value="value">Valor</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <div className="flex items-center gap-2 h-10">
+              <Switch id="analytics-compare" checked={compare} onCheckedChange={setCompare} />
+              <Label htmlFor="analytics-compare">Comparar com o ano anterior</Label>
+            </div>
+          </div>
+          {!isValidRange && (
+            <p className="mt-3 text-sm text-destructive">O mês inicial não pode ser posterior ao mês final.</p>
+          )}
+        </Card>
+
+        {analyticsQuery.isPending && isValidRange ? (
+          <div className="flex justify-center items-center py-20">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <span className="ml-2">Carregando dados...</span>
+          </div>
+        ) : analyticsQuery.isError ? (
+          <p className="text-center text-sm text-destructive py-20">Erro ao carregar as análises.</p>
+        ) : (
+          analytics && (
+            <>
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                {summaryCards?.map((card) => (
+                  <Card key={card.title} className="p-6">
+                    <h3 className="text-sm font-medium text-muted-foreground mb-2">{card.title}</h3>
+                    <p className="text-2xl font-bold text-foreground">{card.value}</p>
+                    {compare && <p className="mt-1 text-xs text-muted-foreground">{card.change}</p>}
+                  </Card>
+                ))}
+              </div>
+
+              <Card className="p-6">
+                <h3 className="text-sm font-medium text-muted-foreground mb-4">
+                  {metric === "count" ? "Quantidade" : "Valor"} de propostas por mês e status, com a taxa de
+                  conversão (aprovadas / decididas)
+                </h3>
+                <MonthlyChart analytics={analytics} metric={metric} compare={compare} />
+              </Card>
+            </>
+          )
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { AuditChanges } from "@/components/AuditChanges";
+import { ArrowLeft, ChevronLeft, ChevronRight, Loader2, Search } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { AuditOperation, auditOperationLabels } from "@/types/audit";
+import { AUDIT_PAGE_SIZE, AuditFilters, defaultAuditFilters, getAuditClientName } from "@/lib/proposal-audit";
+import { useAuditLog } from "@/hooks/use-proposal-audit";
+import { usePermissions } from "@/hooks/use-permissions";
+import logo from "@/assets/logo.png";
+
+const ALL = "all"; // O Select não aceita valor vazio
+
+const formatDateTime = (date: Date) =>
+  new Intl.DateTimeFormat("pt-BR", { dateStyle: "short", timeStyle: "short" }).format(date);
+
+const AuditLog = () => {
+  const navigate = useNavigate();
+  const [userId, setUserId] = useState<string>();
+  const [filters, setFilters] = useState<AuditFilters>(defaultAuditFilters);
+  const [debouncedFilters, setDebouncedFilters] = useState(filters);
+  const [page, setPage] = useState(1);
+
+  const permissions = usePermissions(!!userId);
+  // O RLS só libera a auditoria completa da organização para admins
+  const auditQuery = useAuditLog(debouncedFilters, page, permissions.isAdmin);
+  const entries = auditQuery.data?.entries ?? [];
+  const totalPages = Math.max(1, Math.ceil((auditQuery.data?.totalCount ?? 0) / AUDIT_PAGE_SIZE));
+
+  // Página restrita: sem sessão, volta para a tela de login
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/login");
+        return;
+      }
+      setUserId(session.user.id);
+    });
+  }, [navigate]);
+
+  // Pequeno atraso para não consultar a cada tecla digitada na busca
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedFilters(filters), 300);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  // Qualquer mudança de filtro volta para a primeira página
+  const setFilter = (field: keyof AuditFilters, value: string) => {
+    setFilters({ ...filters, [field]: value });
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-6 py-6 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="icon" asChild title="Voltar">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground">Auditoria</h1>
+              <p className="mt-1 text-sm text-muted-foreground">Todas as alterações feitas nas propostas</p>
+            </div>
+          </div>
+          <img src={logo} alt="Complementare Logo" className="h-10 w-auto object-contain" />
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-4">
+        {!permissions.isLoading && !permissions.isAdmin ? (
+          <Card className="p-12 text-center text-slate-500 border-slate-200 shadow-sm">
+            Apenas administradores da organização podem ver a auditoria.
+          </Card>
+        ) : (
+          <Card className="p-6 border-slate-200 shadow-sm space-y-4">
+            {/* FILTROS */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  placeholder="Buscar por cliente..."
+                  value={filters.search}
+                  onChange={(e) => setFilter("search", e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Select
+                value={filters.operation || ALL}
+                onValueChange={(value) => setFilter("operation", value === ALL ? "" : (value as AuditOperation))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todas as operações</SelectItem>
+                  {Object.entries(auditOperationLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="date"
+                title="De"
+                value={filters.dateStart}
+                onChange={(e) => setFilter("dateStart", e.target.value)}
+              />
+              <Input
+                type="date"
+                title="Até"
+                value={filters.dateEnd}
+                onChange={(e) => setFilter("dateEnd", e.target.value)}
+              />
+            </div>
+
+            {/* TABELA */}
+            <div
+              className={`rounded-md border border-slate-200 overflow-hidden transition-opacity ${
+                auditQuery.isFetching ? "opacity-60" : ""
+              }`}
+            >
+              <Table>
+                <TableHeader className="bg-slate-50">
+                  <TableRow className="border-b-slate-200 hover:bg-slate-50">
+                    <TableHead className="text-slate-700 font-bold w-[150px]">Data</TableHead>
+                    <TableHead className="text-slate-700 font-bold">Cliente</TableHead>
+                    <TableHead className="text-slate-700 font-bold">Operação</TableHead>
+                    <TableHead className="text-slate-700 font-bold">Por</TableHead>
+                    <TableHead className="text-slate-700 font-bold">Alterações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {auditQuery.isPending ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-12">
+                        <Loader2 className="mx-auto h-6 w-6 animate-spin text-primary" />
+                      </TableCell>
+                    </TableRow>
+                  ) : entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-12 text-slate-500">
+                        {auditQuery.isError ? "Erro ao carregar auditoria." : "Nenhuma alteração encontrada."}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    entries.map((entry) => (
+                      <TableRow key={entry.id} className="align-top">
+                        <TableCell className="text-sm whitespace-nowrap">{formatDateTime(entry.changedAt)}</TableCell>
+                        <TableCell className="font-semibold">
+                          {/* Proposta excluída não tem mais página de detalhe */}
+                          {entry.operation === "DELETE" ? (
+                            getAuditClientName(entry)
+                          ) : (
+                            <Link to={`/proposals/${entry.proposalId}`} className="hover:underline">
+                              {getAuditClientName(entry)}
+                            </Link>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{auditOperationLabels[entry.operation]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {entry.changedBy === userId ? "Você" : "Outro usuário"}
+                        </TableCell>
+                        <TableCell>
+                          <AuditChanges entry={entry} />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            {/* PAGINAÇÃO */}
+            <div className="flex items-center justify-end gap-2">
+              <span className="text-sm text-muted-foreground">
+                Página {page} de {totalPages}
+              </span>
+              <Button variant="outline" size="icon" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AuditLog;
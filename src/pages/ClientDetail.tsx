@@ -0,0 +1,268 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Loader2, Save, Trophy, Wallet, FileText } from "lucide-react";
+import { Client } from "@/types/client";
+import { Proposal, statusLabels } from "@/types/proposal";
+import { formatCurrency, formatDate } from "@/lib/format";
+import { toProposal } from "@/lib/proposal-mappers";
+import { assertAffected } from "@/lib/proposals-api";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import logo from "@/assets/logo.png";
+
+const ClientDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const [client, setClient] = useState<Client | null>(null);
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchClient = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [clientResult, proposalsResult] = await Promise.all([
+        supabase.from("clients").select("*").eq("id", id).maybeSingle(),
+        supabase
+          .from("proposals")
+          .select("*")
+          .eq("client_id", id)
+          .order("sent_date", { ascending: false }),
+      ]);
+
+      if (clientResult.error) throw clientResult.error;
+      if (proposalsResult.error) throw proposalsResult.error;
+
+      const c = clientResult.data;
+      setClient(
+        c
+          ? {
+              id: c.id,
+              name: c.name,
+              cnpj: c.cnpj ?? "",
+              contacts: c.contacts ?? "",
+              phone: c.phone ?? "",
+              email: c.email ?? "",
+            }
+          : null
+      );
+
+      setProposals(proposalsResult.data.map(toProposal));
+    } catch (error) {
+      console.error("Erro ao buscar cliente:", error);
+      toast.error("Erro ao carregar cliente.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  // Página restrita: sem sessão, volta para a tela de login
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/login");
+        return;
+      }
+      fetchClient();
+    });
+  }, [fetchClient, navigate]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!client) return;
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from("clients")
+        .update({
+          name: client.name,
+          cnpj: client.cnpj || null,
+          contacts: client.contacts || null,
+          phone: client.phone || null,
+          email: client.email || null,
+        })
+        .eq("id", client.id)
+        .select("id");
+
+      if (error) throw error;
+      assertAffected(data, "Sem permissão para alterar o cliente");
+      toast.success("Cliente atualizado!");
+      fetchClient();
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao atualizar cliente.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen justify-center items-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando dados...</span>
+      </div>
+    );
+  }
+
+  if (!client) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-muted">
+        <p className="text-xl text-muted-foreground">Cliente não encontrado.</p>
+        <Link to="/" className="text-primary underline hover:text-primary/90">
+          Voltar para as propostas
+        </Link>
+      </div>
+    );
+  }
+
+  // Taxa de conversão considera só propostas já decididas (aprovadas + recusadas)
+  const approved = proposals.filter((p) => p.status === "approved");
+  const decided = approved.length + proposals.filter((p) => p.status === "rejected").length;
+  const winRate = decided > 0 ? (approved.length / decided) * 100 : 0;
+  const totalValue = proposals.reduce((sum, p) => sum + p.value, 0);
+  const approvedValue = approved.reduce((sum, p) => sum + p.value, 0);
+
+  const stats = [
+    { title: "Propostas", value: String(proposals.length), icon: FileText },
+    { title: "Taxa de Conversão", value: `${winRate.toFixed(0)}%`, icon: Trophy },
+    { title: "Valor Total", value: formatCurrency(totalValue), icon: Wallet },
+    { title: "Valor Aprovado", value: formatCurrency(approvedValue), icon: Wallet },
+  ];
+
+  const updateField = (field: keyof Client) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setClient({ ...client, [field]: e.target.value });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-6 py-6 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="icon" asChild title="Voltar">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground">{client.name}</h1>
+              {client.cnpj && <p className="mt-1 text-sm text-muted-foreground">CNPJ {client.cnpj}</p>}
+            </div>
+          </div>
+          <img src={logo} alt="Complementare Logo" className="h-10 w-auto object-contain" />
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-8">
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {stats.map((stat) => {
+            const Icon = stat.icon;
+            return (
+              <Card key={stat.title} className="p-6">
+                <div className="flex items-center gap-4">
+                  <div className="rounded-lg p-3 bg-primary/10">
+                    <Icon className="h-6 w-6 text-primary" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">{stat.title}</p>
+                    <p className="text-2xl font-bold text-foreground">{stat.value}</p>
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+
+        {/* DADOS CADASTRAIS */}
+        <Card className="p-6 border-slate-200 shadow-sm">
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <Label htmlFor="name">Nome</Label>
+                <Input id="name" required value={client.name} onChange={updateField("name")} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="cnpj">CNPJ</Label>
+                <Input id="cnpj" placeholder="00.000.000/0000-00" value={client.cnpj} onChange={updateField("cnpj")} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="contacts">Contatos</Label>
+                <Input id="contacts" placeholder="Ex: João (compras), Maria (engenharia)" value={client.contacts} onChange={updateField("contacts")} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="phone">Telefone</Label>
+                <Input id="phone" value={client.phone} onChange={updateField("phone")} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="email">E-mail</Label>
+                <Input id="email" type="email" value={client.email} onChange={updateField("email")} className="mt-1" />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isSaving} className="gap-2">
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Salvar Cliente
+              </Button>
+            </div>
+          </form>
+        </Card>
+
+        {/* PROPOSTAS DO CLIENTE */}
+        <Card className="p-6 border-slate-200 shadow-sm">
+          <div className="rounded-md border border-slate-200 overflow-hidden">
+            <Table>
+              <TableHeader className="bg-slate-50">
+                <TableRow className="border-b-slate-200 hover:bg-slate-50">
+                  <TableHead className="text-slate-700 font-bold">Data Envio</TableHead>
+                  <TableHead className="text-slate-700 font-bold">Valor</TableHead>
+                  <TableHead className="text-slate-700 font-bold">Status</TableHead>
+                  <TableHead className="text-slate-700 font-bold">Follow-up</TableHead>
+                  <TableHead className="text-slate-700 font-bold">Observações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {proposals.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-12 text-slate-500">
+                      Nenhuma proposta para este cliente.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  proposals.map((proposal) => (
+                    <TableRow key={proposal.id}>
+                      <TableCell>{formatDate(proposal.sentDate)}</TableCell>
+                      <TableCell className="font-medium">{formatCurrency(proposal.value)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{statusLabels[proposal.status]}</Badge>
+                      </TableCell>
+                      <TableCell>{formatDate(proposal.lastFollowUp)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
+                        {proposal.notes || "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default ClientDetail;
@@ -1,127 +1,161 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Link, Navigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Plus, Loader2, LogOut, Lock } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Loader2, LogOut, List, Columns3, Upload, Settings, Inbox, ChartLine, History, Trash2, ShieldCheck } from "lucide-react";
 import { Dashboard } from "@/components/Dashboard";
 import { ProposalsTable } from "@/components/ProposalsTable";
+import { ProposalsBoard } from "@/components/ProposalsBoard";
+import { FollowUpInbox } from "@/components/FollowUpInbox";
 import { ProposalDialog } from "@/components/ProposalDialog";
-import { Proposal, ProposalStatus } from "@/types/proposal"; // Importado ProposalStatus
+import { ImportProposalsDialog } from "@/components/ImportProposalsDialog";
+import { LossReasonDialog } from "@/components/LossReasonDialog";
+import { TrashBin } from "@/components/TrashBin";
+import { OrganizationSwitcher } from "@/components/OrganizationSwitcher";
+import { LossDetails, Proposal, ProposalStatus, defaultLossReasons, statusLabels } from "@/types/proposal"; // Importado ProposalStatus
 import logo from "@/assets/logo.png";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { Session } from "@supabase/supabase-js";
+import { getProposalStats } from "@/lib/proposal-stats";
+import { ProposalQuery, SharedFilters, StatusFilter, defaultProposalQuery } from "@/lib/proposals-api";
+import { fromSearchParams, toSearchParams } from "@/lib/proposal-query-params";
+import { canTransition } from "@/lib/proposal-status";
+import {
+  useProposals,
+  useBoardProposals,
+  useProposalTotals,
+  useOwnerTotals,
+  useFollowUpAging,
+  useInboxProposals,
+  useLossBreakdown,
+  usePipelineForecast,
+  useCreateProposal,
+  useUpdateProposal,
+  useDeleteProposal,
+  useDeletedProposals,
+  useRestoreProposals,
+  usePurgeProposals,
+  useBulkStatus,
+  useBulkReassign,
+  useSnoozeProposal,
+  useRegisterContact,
+  useInvalidateProposals,
+  useInvalidateFollowUps,
+} from "@/hooks/use-proposals";
+import { useProposalsRealtime } from "@/hooks/use-proposals-realtime";
+import { useFollowUpBands } from "@/hooks/use-follow-up-bands";
+import { useLossReasons } from "@/hooks/use-loss-reasons";
+import { useUserSettings } from "@/hooks/use-user-settings";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useSession } from "@/hooks/use-session";
+import { useOrganizationMembers } from "@/hooks/use-organizations";
+import { DEFAULT_TRASH_RETENTION_DAYS } from "@/lib/proposal-trash";
+import { defaultFollowUpBands } from "@/types/follow-up-band";
+import { getInboxAgeLimit, getInboxItems } from "@/lib/follow-up-inbox";
+import { formatDate } from "@/lib/format";
 
 const Index = () => {
-  // --- ESTADOS DE AUTENTICAÇÃO ---
-  const [session, setSession] = useState<Session | null>(null);
-  const [authLoading, setAuthLoading] = useState(true);
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [isLoggingIn, setIsLoggingIn] = useState(false);
+  // --- AUTENTICAÇÃO (login, recuperação de senha e convite ficam em /login e vizinhas) ---
+  const { session, isLoading: authLoading } = useSession();
 
   // --- ESTADOS DO SISTEMA ---
-  const [proposals, setProposals] = useState<Proposal[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  // Busca, filtros, ordenação e página ficam na query string: sobrevivem ao F5 e viram link compartilhável
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => fromSearchParams(searchParams), [searchParams]);
+  const setQuery = (next: ProposalQuery | ((current: ProposalQuery) => ProposalQuery)) =>
+    setSearchParams(
+      (params) => toSearchParams(typeof next === "function" ? next(fromSearchParams(params)) : next),
+      { replace: true } // Digitar na busca não enche o histórico do navegador
+    );
+  const [debouncedQuery, setDebouncedQuery] = useState(query);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingProposal, setEditingProposal] = useState<Proposal | undefined>();
+  // Fica aqui (e não no Tabs) para não voltar à tabela quando a lista recarrega
+  const [view, setView] = useState("table");
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  // Propostas esperando o motivo da perda para serem recusadas
+  const [pendingLossIds, setPendingLossIds] = useState<string[] | null>(null);
+  const tabsRef = useRef<HTMLDivElement>(null);
 
-  // 1. Verifica se já existe um usuário logado ao abrir
-  useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setAuthLoading(false);
-    });
-
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
-    });
+  // --- DADOS (React Query) ---
+  // Busca, filtros, ordenação e paginação rodam no Supabase; os totais vêm de uma consulta agregada
+  const queryClient = useQueryClient();
+  const proposalsQuery = useProposals(debouncedQuery, !!session);
+  const boardQuery = useBoardProposals(!!session && view === "board");
+  const { dateStart, dateEnd, sentVia } = debouncedQuery;
+  const totalsQuery = useProposalTotals({ dateStart, dateEnd, sentVia }, !!session);
+  const ownerTotalsQuery = useOwnerTotals({ dateStart, dateEnd, sentVia }, !!session);
+  const membersQuery = useOrganizationMembers(!!session);
+  const bandsQuery = useFollowUpBands(!!session);
+  const agingQuery = useFollowUpAging(bandsQuery.data, !!session);
+  const inboxAgeLimit = bandsQuery.data ? getInboxAgeLimit(bandsQuery.data) : undefined;
+  const inboxQuery = useInboxProposals(inboxAgeLimit, !!session);
+  const lossesQuery = useLossBreakdown(!!session);
+  const forecastQuery = usePipelineForecast(!!session);
+  const lossReasonsQuery = useLossReasons(!!session);
+  const trashQuery = useDeletedProposals(!!session && view === "trash");
+  const userSettingsQuery = useUserSettings(!!session && view === "trash");
+  const createProposal = useCreateProposal();
+  const updateProposal = useUpdateProposal();
+  const deleteProposal = useDeleteProposal();
+  const restoreProposals = useRestoreProposals();
+  const purgeProposals = usePurgeProposals();
+  const bulkStatus = useBulkStatus();
+  const bulkReassign = useBulkReassign();
+  const snoozeProposal = useSnoozeProposal();
+  const registerContact = useRegisterContact();
+  const invalidateProposals = useInvalidateProposals();
+  const invalidateFollowUps = useInvalidateFollowUps();
+  // Alterações de outros usuários chegam pelo Realtime e entram direto no cache
+  const highlightedIds = useProposalsRealtime(session);
+  const permissions = usePermissions(!!session);
 
-    return () => subscription.unsubscribe();
-  }, []);
+  const proposals = proposalsQuery.data?.proposals ?? []; // Só a página atual
+  const totalCount = proposalsQuery.data?.totalCount ?? 0;
+  const totals = totalsQuery.data ?? getProposalStats([]);
+  const followUpBands = bandsQuery.data ?? defaultFollowUpBands;
+  const inboxCount = getInboxItems(inboxQuery.data ?? [], inboxAgeLimit ?? null).length;
+  const isLoading = proposalsQuery.isPending; // Primeira carga (tela inteira)
 
-  // Carrega propostas APENAS se estiver logado
+  // Pequeno atraso para não consultar a cada tecla digitada na busca
   useEffect(() => {
-    if (session) {
-      fetchProposals();
-    }
-  }, [session]);
+    const timeout = setTimeout(() => setDebouncedQuery(query), 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
 
-  const handleLogin = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsLoggingIn(true);
-    try {
-      const { error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-      if (error) throw error;
-      toast.success("Bem-vindo de volta!");
-    } catch (error: any) {
-      toast.error("Erro ao entrar. Verifique email e senha.");
-      console.error(error);
-    } finally {
-      setIsLoggingIn(false);
+  useEffect(() => {
+    if (proposalsQuery.isError || totalsQuery.isError) {
+      toast.error("Erro ao carregar dados.");
     }
-  };
+  }, [proposalsQuery.isError, totalsQuery.isError]);
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
     toast.info("Você saiu do sistema.");
-    setProposals([]);
+    queryClient.removeQueries();
+    setQuery(defaultProposalQuery);
   };
 
-  const fetchProposals = async () => {
-    setIsLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from('proposals')
-        .select('*')
-        .order('sent_date', { ascending: false });
-
-      if (error) throw error;
-
-      const formattedProposals: Proposal[] = data.map((p: any) => ({
-        id: p.id,
-        clientName: p.client_name,
-        sentDate: new Date(p.sent_date),
-        value: Number(p.value),
-        status: p.status,
-        sentVia: p.sent_via,
-        lastFollowUp: p.last_follow_up ? new Date(p.last_follow_up) : undefined,
-        expectedReturnDate: p.expected_return_date ? new Date(p.expected_return_date) : undefined,
-        notes: p.notes
-      }));
-
-      setProposals(formattedProposals);
-    } catch (error) {
-      console.error("Erro ao buscar:", error);
-      toast.error("Erro ao carregar dados.");
-    } finally {
-      setIsLoading(false);
-    }
+  // --- FILTROS COMPARTILHADOS (Dashboard + tabela) ---
+  const handleSharedFiltersChange = (filters: Partial<SharedFilters>) =>
+    setQuery((current) => ({ ...current, ...filters, page: 1 }));
+
+  // Clique num card do Dashboard: filtra a tabela pelo status e rola até ela
+  const handleDrillDown = (status: StatusFilter) => {
+    handleSharedFiltersChange({ status });
+    setView("table");
+    // Espera a aba da tabela aparecer antes de rolar
+    requestAnimationFrame(() => tabsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" }));
   };
 
   // --- CRUD & BULK ACTIONS ---
+  // A lista já muda na hora (atualização otimista); em caso de erro o hook desfaz
 
   const handleAddProposal = async (proposal: Omit<Proposal, "id">) => {
     try {
-      const { error } = await supabase.from('proposals').insert({
-        client_name: proposal.clientName,
-        sent_date: proposal.sentDate.toISOString(),
-        value: proposal.value,
-        status: proposal.status,
-        sent_via: proposal.sentVia,
-        last_follow_up: proposal.lastFollowUp?.toISOString(),
-        expected_return_date: proposal.expectedReturnDate?.toISOString(),
-        notes: proposal.notes
-      });
-
-      if (error) throw error;
+      await createProposal.mutateAsync(proposal);
       toast.success("Salvo com sucesso!");
-      fetchProposals();
       setIsDialogOpen(false);
     } catch (error) {
       toast.error("Erro ao salvar.");
@@ -130,23 +164,8 @@ const Index = () => {
 
   const handleEditProposal = async (proposal: Proposal) => {
     try {
-      const { error } = await supabase
-        .from('proposals')
-        .update({
-          client_name: proposal.clientName,
-          sent_date: proposal.sentDate.toISOString(),
-          value: proposal.value,
-          status: proposal.status,
-          sent_via: proposal.sentVia,
-          last_follow_up: proposal.lastFollowUp?.toISOString(),
-          expected_return_date: proposal.expectedReturnDate?.toISOString(),
-          notes: proposal.notes
-        })
-        .eq('id', proposal.id);
-
-      if (error) throw error;
+      await updateProposal.mutateAsync(proposal);
       toast.success("Atualizado!");
-      fetchProposals();
       setIsDialogOpen(false);
     } catch (error) {
       toast.error("Erro ao atualizar.");
@@ -155,98 +174,132 @@ const Index = () => {
 
   const handleDeleteProposal = async (id: string) => {
     try {
-      const { error } = await supabase.from('proposals').delete().eq('id', id);
-      if (error) throw error;
-      toast.success("Excluído.");
-      fetchProposals();
+      await deleteProposal.mutateAsync(id);
+      toast.success("Movida para a lixeira.", {
+        action: { label: "Desfazer", onClick: () => handleRestoreProposals([id]) },
+      });
     } catch (error) {
       toast.error("Erro ao excluir.");
     }
   };
 
+  const handleRestoreProposals = async (ids: string[]) => {
+    try {
+      await restoreProposals.mutateAsync(ids);
+      toast.success(ids.length === 1 ? "Proposta restaurada." : `${ids.length} propostas restauradas.`);
+    } catch (error) {
+      toast.error("Erro ao restaurar.");
+    }
+  };
+
+  const handlePurgeProposals = async (ids: string[]) => {
+    try {
+      await purgeProposals.mutateAsync(ids);
+      toast.success(ids.length === 1 ? "Excluída definitivamente." : `${ids.length} propostas excluídas definitivamente.`);
+    } catch (error) {
+      toast.error("Erro ao excluir definitivamente.");
+    }
+  };
+
   // NOVA FUNÇÃO: Atualização em Massa (Esta é a novidade!)
-  const handleBulkStatusChange = async (ids: string[], newStatus: ProposalStatus) => {
+  const handleBulkStatusChange = async (ids: string[], newStatus: ProposalStatus, loss?: LossDetails) => {
+    // Recusar sempre passa pelo diálogo do motivo da perda
+    if (newStatus === "rejected" && !loss) {
+      setPendingLossIds(ids);
+      return;
+    }
+
     try {
       // Manda o Supabase atualizar o status de TODAS as propostas selecionadas
-      const { error } = await supabase
-        .from('proposals')
-        .update({ status: newStatus })
-        .in('id', ids);
+      // (as que não podem ir para o novo status pela máquina de estados ficam como estão)
+      const loaded = [...proposals, ...(boardQuery.data ?? [])];
+      const updatedIds = await bulkStatus.mutateAsync({ ids, status: newStatus, loss });
+      // O que a máquina de estados barra sabemos pelo status em tela; o resto o RLS não deixou alterar
+      const notAllowed = ids.filter((id) => {
+        const proposal = loaded.find((p) => p.id === id);
+        return proposal && (proposal.status === newStatus || !canTransition(proposal.status, newStatus));
+      }).length;
+      const forbidden = Math.max(ids.length - updatedIds.length - notAllowed, 0);
+      const label = statusLabels[newStatus];
 
-      if (error) throw error;
+      if (updatedIds.length === 0) {
+        if (forbidden === 0) {
+          toast.error(
+            ids.length === 1
+              ? `Não é possível mover esta proposta para "${label}" sem reabri-la antes.`
+              : `Nenhuma das propostas selecionadas pode ir para "${label}".`
+          );
+        } else if (notAllowed === 0) {
+          toast.error(
+            ids.length === 1
+              ? "Sem permissão para alterar esta proposta."
+              : "Sem permissão para alterar as propostas selecionadas."
+          );
+        } else {
+          toast.error(
+            `Nenhuma proposta alterada: ${notAllowed} com transição para "${label}" não permitida e ${forbidden} sem permissão.`
+          );
+        }
+        return;
+      }
 
-      const statusLabels = {
-        approved: 'Aprovadas',
-        rejected: 'Recusadas',
-        pending: 'Aguardando'
-      };
-
-      toast.success(`${ids.length} propostas marcadas como ${statusLabels[newStatus]}!`);
-      fetchProposals(); // Recarrega a lista para mostrar a mudança
+      toast.success(
+        updatedIds.length === 1
+          ? `Proposta movida para ${label}!`
+          : `${updatedIds.length} propostas marcadas como ${label}!`
+      );
+      if (notAllowed > 0) {
+        toast.warning(`${notAllowed} propostas ignoradas: transição para "${label}" não permitida.`);
+      }
+      if (forbidden > 0) {
+        toast.warning(`${forbidden} propostas ignoradas: sem permissão para alterá-las.`);
+      }
     } catch (error) {
       console.error(error);
       toast.error("Erro ao atualizar status em massa.");
     }
   };
 
-  // --- TELA DE LOGIN ---
+  const handleBulkReassign = async (ids: string[], ownerId: string) => {
+    const name = membersQuery.data?.find((m) => m.userId === ownerId)?.name ?? "o vendedor";
+    try {
+      const updatedIds = await bulkReassign.mutateAsync({ ids, ownerId });
+      toast.success(
+        updatedIds.length === 1
+          ? `Proposta atribuída a ${name}!`
+          : `${updatedIds.length} propostas atribuídas a ${name}!`
+      );
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao reatribuir propostas.");
+    }
+  };
+
+  // --- AÇÕES DA INBOX ---
+  const handleContacted = async (id: string) => {
+    try {
+      await registerContact.mutateAsync(id);
+      toast.success("Follow-up registrado!");
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao registrar follow-up.");
+    }
+  };
+
+  const handleSnooze = async (id: string, until: Date) => {
+    try {
+      await snoozeProposal.mutateAsync({ id, until });
+      toast.success(`Retorno adiado para ${formatDate(until)}.`);
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao adiar proposta.");
+    }
+  };
+
+  // --- SEM SESSÃO: vai para o login ---
   if (!session) {
     if (authLoading) return null;
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
-        <div className="max-w-md w-full space-y-8 bg-white p-8 rounded-xl shadow-lg border">
-          <div className="text-center flex flex-col items-center">
-            <div className="bg-primary/10 p-3 rounded-full mb-4">
-              <Lock className="h-8 w-8 text-primary" />
-            </div>
-            <img src={logo} alt="Logo" className="h-12 w-auto mb-4" />
-            <h2 className="text-2xl font-bold text-gray-900">Acesso Restrito</h2>
-            <p className="mt-2 text-sm text-gray-600">
-              Entre com suas credenciais da Complementare
-            </p>
-          </div>
-          <form className="mt-8 space-y-6" onSubmit={handleLogin}>
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="email">E-mail Corporativo</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  required
-                  placeholder="seu.nome@complementare.com.br"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="mt-1"
-                />
-              </div>
-              <div>
-                <Label htmlFor="password">Senha</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  required
-                  placeholder="••••••••"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="mt-1"
-                />
-              </div>
-            </div>
-
-            <Button type="submit" className="w-full" disabled={isLoggingIn}>
-              {isLoggingIn ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Entrando...
-                </>
-              ) : (
-                "Acessar Sistema"
-              )}
-            </Button>
-          </form>
-        </div>
-      </div>
-    );
+    return <Navigate to="/login" replace />;
   }
 
   // --- SISTEMA PRINCIPAL ---
@@ -279,10 +332,41 @@ const Index = () => {
               </div>
 
               <div className="flex items-center gap-3 w-full md:w-auto justify-end">
-                <Button onClick={() => setIsDialogOpen(true)} className="gap-2 shadow-md w-full md:w-auto">
-                  <Plus className="h-4 w-4" />
-                  <span className="hidden sm:inline">Nova Proposta</span>
-                  <span className="sm:hidden">Nova</span>
+                <OrganizationSwitcher />
+                {permissions.canCreate && (
+                  <>
+                    <Button variant="outline" onClick={() => setIsImportOpen(true)} className="gap-2">
+                      <Upload className="h-4 w-4" />
+                      <span className="hidden sm:inline">Importar</span>
+                    </Button>
+                    <Button onClick={() => setIsDialogOpen(true)} className="gap-2 shadow-md w-full md:w-auto">
+                      <Plus className="h-4 w-4" />
+                      <span className="hidden sm:inline">Nova Proposta</span>
+                      <span className="sm:hidden">Nova</span>
+                    </Button>
+                  </>
+                )}
+                <Button variant="outline" size="icon" asChild title="Análises">
+                  <Link to="/analytics">
+                    <ChartLine className="h-4 w-4" />
+                  </Link>
+                </Button>
+                {permissions.isAdmin && (
+                  <Button variant="outline" size="icon" asChild title="Auditoria">
+                    <Link to="/audit">
+                      <History className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                )}
+                <Button variant="outline" size="icon" asChild title="Segurança">
+                  <Link to="/security">
+                    <ShieldCheck className="h-4 w-4" />
+                  </Link>
+                </Button>
+                <Button variant="outline" size="icon" asChild title="Configurações">
+                  <Link to="/settings">
+                    <Settings className="h-4 w-4" />
+                  </Link>
                 </Button>
                 <Button variant="outline" size="icon" onClick={handleLogout} title="Sair">
                   <LogOut className="h-4 w-4" />
@@ -301,14 +385,86 @@ const Index = () => {
           </div>
         ) : (
           <>
-            <Dashboard proposals={proposals} />
-            {/* Aqui passamos a nova função handleBulkStatusChange para a tabela */}
-            <ProposalsTable
-              proposals={proposals}
-              onEdit={(p) => { setEditingProposal(p); setIsDialogOpen(true); }}
-              onDelete={handleDeleteProposal}
-              onBulkStatusChange={handleBulkStatusChange} 
+            <Dashboard
+              totals={totals}
+              filters={{ dateStart: query.dateStart, dateEnd: query.dateEnd, status: query.status, sentVia: query.sentVia }}
+              onFiltersChange={handleSharedFiltersChange}
+              onDrillDown={handleDrillDown}
+              followUpBands={bandsQuery.data}
+              agingCounts={agingQuery.data}
+              losses={lossesQuery.data}
+              forecast={forecastQuery.data}
+              ownerTotals={ownerTotalsQuery.data}
+              members={membersQuery.data}
             />
+            <Tabs ref={tabsRef} value={view} onValueChange={setView} className="space-y-4 scroll-mt-4">
+              <TabsList>
+                <TabsTrigger value="table" className="gap-2">
+                  <List className="h-4 w-4" /> Tabela
+                </TabsTrigger>
+                <TabsTrigger value="board" className="gap-2">
+                  <Columns3 className="h-4 w-4" /> Quadro
+                </TabsTrigger>
+                <TabsTrigger value="inbox" className="gap-2">
+                  <Inbox className="h-4 w-4" /> Inbox
+                  {inboxCount > 0 && (
+                    <span className="rounded-full bg-red-600 px-2 text-xs font-bold text-white">{inboxCount}</span>
+                  )}
+                </TabsTrigger>
+                <TabsTrigger value="trash" className="gap-2">
+                  <Trash2 className="h-4 w-4" /> Lixeira
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="table">
+                {/* Aqui passamos a nova função handleBulkStatusChange para a tabela */}
+                <ProposalsTable
+                  proposals={proposals}
+                  totalCount={totalCount}
+                  query={query}
+                  onQueryChange={setQuery}
+                  isFetching={proposalsQuery.isFetching}
+                  onEdit={(p) => { setEditingProposal(p); setIsDialogOpen(true); }}
+                  onDelete={handleDeleteProposal}
+                  onBulkStatusChange={handleBulkStatusChange} 
+                  onBulkReassign={handleBulkReassign}
+                  members={membersQuery.data ?? []}
+                  highlightedIds={highlightedIds}
+                  followUpBands={followUpBands}
+                />
+              </TabsContent>
+              <TabsContent value="inbox">
+                <FollowUpInbox
+                  proposals={inboxQuery.data ?? []}
+                  followUpBands={followUpBands}
+                  onContacted={handleContacted}
+                  onSnooze={handleSnooze}
+                  onMarkLost={(id) => handleBulkStatusChange([id], "rejected")}
+                  onEdit={(p) => { setEditingProposal(p); setIsDialogOpen(true); }}
+                />
+              </TabsContent>
+              <TabsContent value="board">
+                {/* Arrastar um card usa o mesmo update da ação em massa */}
+                <ProposalsBoard
+                  proposals={boardQuery.data ?? []}
+                  onEdit={(p) => { setEditingProposal(p); setIsDialogOpen(true); }}
+                  onStatusChange={(id, status) => handleBulkStatusChange([id], status)}
+                />
+              </TabsContent>
+              <TabsContent value="trash">
+                {trashQuery.isPending ? (
+                  <div className="flex justify-center py-12">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                  </div>
+                ) : (
+                  <TrashBin
+                    proposals={trashQuery.data ?? []}
+                    retentionDays={userSettingsQuery.data?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS}
+                    onRestore={handleRestoreProposals}
+                    onPurge={handlePurgeProposals}
+                  />
+                )}
+              </TabsContent>
+            </Tabs>
           </>
         )}
       </main>
@@ -321,6 +477,26 @@ const Index = () => {
         }}
         onSave={editingProposal ? handleEditProposal : handleAddProposal}
         proposal={editingProposal}
+        onFollowUpChange={() => editingProposal && invalidateFollowUps(editingProposal.id)}
+        lossReasons={lossReasonsQuery.data ?? defaultLossReasons}
+        members={membersQuery.data ?? []}
+      />
+
+      <LossReasonDialog
+        open={!!pendingLossIds}
+        count={pendingLossIds?.length ?? 0}
+        reasons={lossReasonsQuery.data ?? defaultLossReasons}
+        onCancel={() => setPendingLossIds(null)}
+        onConfirm={(loss) => {
+          handleBulkStatusChange(pendingLossIds ?? [], "rejected", loss);
+          setPendingLossIds(null);
+        }}
+      />
+
+      <ImportProposalsDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImported={() => invalidateProposals()}
       />
     </div>
   );
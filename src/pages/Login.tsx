@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { Link, Navigate, useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { AuthLayout } from "@/components/AuthLayout";
+import { MfaChallenge } from "@/components/MfaChallenge";
+import { Loader2, Mail } from "lucide-react";
+import { toast } from "sonner";
+import { EmailFormValues, LoginFormValues, emailSchema, loginSchema } from "@/lib/auth-schema";
+import { getAuthErrorMessage, sendMagicLink, signInWithPassword } from "@/lib/auth";
+import { useSession } from "@/hooks/use-session";
+import { useMfaStatus } from "@/hooks/use-mfa";
+import { supabase } from "@/integrations/supabase/client";
+
+const Login = () => {
+  const navigate = useNavigate();
+  const { session, isLoading } = useSession();
+  const mfaQuery = useMfaStatus(session?.user.id);
+  // Entrar com senha ou receber um link de acesso por e-mail
+  const [mode, setMode] = useState<"password" | "magicLink">("password");
+  const [magicLinkSentTo, setMagicLinkSentTo] = useState<string>();
+
+  const passwordForm = useForm<LoginFormValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { email: "", password: "" },
+  });
+  const magicLinkForm = useForm<EmailFormValues>({
+    resolver: zodResolver(emailSchema),
+    defaultValues: { email: "" },
+  });
+
+  const handleLogin = async ({ email, password }: LoginFormValues) => {
+    try {
+      // Com a sessão aberta, a tela pede o código do MFA (se ativado) ou vai para o sistema
+      await signInWithPassword(email, password);
+    } catch (error) {
+      console.error(error);
+      passwordForm.setError("root", { message: getAuthErrorMessage(error, "Não foi possível entrar. Tente novamente.") });
+    }
+  };
+
+  const handleMagicLink = async ({ email }: EmailFormValues) => {
+    try {
+      await sendMagicLink(email);
+      setMagicLinkSentTo(email);
+    } catch (error) {
+      console.error(error);
+      magicLinkForm.setError("root", { message: getAuthErrorMessage(error, "Não foi possível enviar o link.") });
+    }
+  };
+
+  // O e-mail digitado passa de um modo para o outro
+  const switchMode = () => {
+    if (mode === "password") {
+      magicLinkForm.reset({ email: passwordForm.getValues("email") });
+      setMode("magicLink");
+    } else {
+      passwordForm.reset({ email: magicLinkForm.getValues("email"), password: "" });
+      setMode("password");
+    }
+    setMagicLinkSentTo(undefined);
+  };
+
+  if (isLoading) return null;
+  if (session) {
+    if (mfaQuery.isPending) return null;
+    if (!mfaQuery.data?.needsChallenge || !mfaQuery.data.factorId) return <Navigate to="/" replace />;
+
+    // Segunda etapa: senha (ou link mágico) já conferida, falta o código do aplicativo
+    return (
+      <AuthLayout
+        title="Verificação em duas etapas"
+        description="Digite o código de 6 dígitos do seu aplicativo autenticador"
+      >
+        <div className="mt-8">
+          <MfaChallenge
+            factorId={mfaQuery.data.factorId}
+            onVerified={() => {
+              toast.success("Bem-vindo de volta!");
+              navigate("/", { replace: true });
+            }}
+          />
+        </div>
+        <Button variant="link" className="w-full text-sm" onClick={() => supabase.auth.signOut()}>
+          Entrar com outra conta
+        </Button>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout title="Acesso Restrito" description="Entre com suas credenciais da Complementare">
+      {mode === "password" ? (
+        <Form {...passwordForm}>
+          <form className="mt-8 space-y-6" onSubmit={passwordForm.handleSubmit(handleLogin)}>
+            <div className="space-y-4">
+              <FormField
+                control={passwordForm.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>E-mail Corporativo</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="email" placeholder="seu.nome@complementare.com.br" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={passwordForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Senha</FormLabel>
+                      <Link to="/reset-password" className="text-xs text-primary hover:underline">
+                        Esqueci minha senha
+                      </Link>
+                    </div>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" placeholder="••••••••" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {passwordForm.formState.errors.root && (
+              <p className="text-sm font-medium text-destructive">{passwordForm.formState.errors.root.message}</p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={passwordForm.formState.isSubmitting}>
+              {passwordForm.formState.isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Entrando...
+                </>
+              ) : (
+                "Acessar Sistema"
+              )}
+            </Button>
+          </form>
+        </Form>
+      ) : magicLinkSentTo ? (
+        <div className="mt-8 rounded-md border border-[#CBEAE2] bg-[#E4F4F0] p-4 text-sm text-[#25515c]">
+          Enviamos um link de acesso para <strong>{magicLinkSentTo}</strong>. Abra o e-mail neste
+          navegador para entrar.
+        </div>
+      ) : (
+        <Form {...magicLinkForm}>
+          <form className="mt-8 space-y-6" onSubmit={magicLinkForm.handleSubmit(handleMagicLink)}>
+            <FormField
+              control={magicLinkForm.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>E-mail Corporativo</FormLabel>
+                  <FormControl>
+                    <Input type="email" autoComplete="email" placeholder="seu.nome@complementare.com.br" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {magicLinkForm.formState.errors.root && (
+              <p className="text-sm font-medium text-destructive">{magicLinkForm.formState.errors.root.message}</p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={magicLinkForm.formState.isSubmitting}>
+              {magicLinkForm.formState.isSubmitting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Mail className="mr-2 h-4 w-4" />
+              )}
+              Enviar link de acesso
+            </Button>
+          </form>
+        </Form>
+      )}
+
+      <Button variant="link" className="w-full text-sm" onClick={switchMode}>
+        {mode === "password" ? "Entrar sem senha, com um link por e-mail" : "Entrar com e-mail e senha"}
+      </Button>
+    </AuthLayout>
+  );
+};
+
+export default Login;
@@ -0,0 +1,478 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Edit,
+  FileText,
+  History,
+  Loader2,
+  Paperclip,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { FollowUpTimeline } from "@/components/FollowUpTimeline";
+import { ProposalDialog } from "@/components/ProposalDialog";
+import { AuditChanges } from "@/components/AuditChanges";
+import { Proposal, ProposalAttachment, channelLabels, defaultLossReasons, statusLabels } from "@/types/proposal";
+import { auditOperationLabels } from "@/types/audit";
+import { fromSearchParams } from "@/lib/proposal-query-params";
+import { getWinProbability } from "@/lib/proposal-status";
+import { formatCurrency, formatDate } from "@/lib/format";
+import {
+  MAX_ATTACHMENT_SIZE,
+  formatFileSize,
+  getAttachmentUrl,
+} from "@/lib/proposal-attachments";
+import {
+  useInvalidateFollowUps,
+  useProposal,
+  useProposalNeighbors,
+  useStatusChanges,
+  useUpdateProposal,
+} from "@/hooks/use-proposals";
+import { useAttachments, useDeleteAttachment, useUploadAttachment } from "@/hooks/use-proposal-attachments";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useOrganizationMembers } from "@/hooks/use-organizations";
+import { useProposalAudit } from "@/hooks/use-proposal-audit";
+import { useLossReasons } from "@/hooks/use-loss-reasons";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import logo from "@/assets/logo.png";
+
+const formatDateTime = (date: Date) =>
+  new Intl.DateTimeFormat("pt-BR", { dateStyle: "short", timeStyle: "short" }).format(date);
+
+const ProposalDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  // A URL do detalhe carrega a consulta da tabela: define a ordem do anterior/próxima e a volta
+  const [searchParams] = useSearchParams();
+  const search = searchParams.toString() ? `?${searchParams.toString()}` : "";
+  const query = useMemo(() => fromSearchParams(searchParams), [searchParams]);
+
+  const [userId, setUserId] = useState<string>();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [deleteAttachment, setDeleteAttachment] = useState<ProposalAttachment | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const proposalQuery = useProposal(id, !!userId);
+  const neighborsQuery = useProposalNeighbors(query, id, !!userId);
+  const statusChangesQuery = useStatusChanges(id, !!userId);
+  const attachmentsQuery = useAttachments(userId ? id : undefined);
+  const auditQuery = useProposalAudit(id, !!userId);
+  const lossReasonsQuery = useLossReasons(!!userId);
+  const membersQuery = useOrganizationMembers(!!userId);
+  const updateProposal = useUpdateProposal();
+  const uploadAttachment = useUploadAttachment();
+  const removeAttachment = useDeleteAttachment();
+  const invalidateFollowUps = useInvalidateFollowUps();
+  const permissions = usePermissions(!!userId);
+
+  const proposal = proposalQuery.data;
+  const canEdit = !!proposal && permissions.canEdit(proposal);
+  const neighbors = neighborsQuery.data;
+
+  // Página restrita: sem sessão, volta para a tela de login
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/login");
+        return;
+      }
+      setUserId(session.user.id);
+    });
+  }, [navigate]);
+
+  const goTo = (proposalId?: string) => proposalId && navigate(`/proposals/${proposalId}${search}`);
+
+  // Setas do teclado navegam entre as propostas (fora de campos de texto e do diálogo)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isDialogOpen || (e.target as HTMLElement).closest("input, textarea, select, [contenteditable]")) return;
+      if (e.key === "ArrowLeft" && neighbors?.previousId) navigate(`/proposals/${neighbors.previousId}${search}`);
+      if (e.key === "ArrowRight" && neighbors?.nextId) navigate(`/proposals/${neighbors.nextId}${search}`);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [neighbors, search, navigate, isDialogOpen]);
+
+  const handleSave = async (updated: Proposal | Omit<Proposal, "id">) => {
+    try {
+      await updateProposal.mutateAsync(updated as Proposal);
+      toast.success("Atualizado!");
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast.error("Erro ao atualizar.");
+    }
+  };
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!id || !files) return;
+
+    for (const file of Array.from(files)) {
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        toast.error(`"${file.name}" passa do limite de ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`);
+        continue;
+      }
+      try {
+        await uploadAttachment.mutateAsync({ proposalId: id, file });
+        toast.success(`"${file.name}" anexado!`);
+      } catch (error) {
+        console.error(error);
+        toast.error(`Erro ao anexar "${file.name}".`);
+      }
+    }
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleDownload = async (attachment: ProposalAttachment) => {
+    try {
+      window.open(await getAttachmentUrl(attachment), "_blank");
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao baixar anexo.");
+    }
+  };
+
+  const confirmDeleteAttachment = async () => {
+    if (!deleteAttachment) return;
+    try {
+      await removeAttachment.mutateAsync(deleteAttachment);
+      toast.success("Anexo excluído.");
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao excluir anexo.");
+    } finally {
+      setDeleteAttachment(null);
+    }
+  };
+
+  if (!userId || proposalQuery.isPending) {
+    return (
+      <div className="flex min-h-screen justify-center items-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando dados...</span>
+      </div>
+    );
+  }
+
+  if (!proposal) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-muted">
+        <p className="text-xl text-muted-foreground">
+          {proposalQuery.isError ? "Erro ao carregar proposta." : "Proposta não encontrada."}
+        </p>
+        <Link to={`/${search}`} className="text-primary underline hover:text-primary/90">
+          Voltar para as propostas
+        </Link>
+      </div>
+    );
+  }
+
+  const fields = [
+    { label: "Valor", value: formatCurrency(proposal.value) },
+    { label: "Status", value: statusLabels[proposal.status] },
+    { label: "Data de Envio", value: formatDate(proposal.sentDate) },
+    { label: "Enviado por", value: proposal.sentVia ? channelLabels[proposal.sentVia] : "-" },
+    {
+      label: "Responsável",
+      value: proposal.ownerId
+        ? membersQuery.data?.find((m) => m.userId === proposal.ownerId)?.name ?? "Ex-membro"
+        : "-",
+    },
+    { label: "Último Follow-up", value: formatDate(proposal.lastFollowUp) },
+    { label: "Previsão de Retorno", value: formatDate(proposal.expectedReturnDate) },
+    {
+      label: "Probabilidade de Ganho",
+      value: `${getWinProbability(proposal.status, proposal.winProbability)}%${
+        proposal.winProbability === undefined ? " (padrão do status)" : ""
+      }`,
+    },
+    ...(proposal.status === "rejected"
+      ? [
+          { label: "Motivo da Perda", value: proposal.lossReason || "-" },
+          { label: "Concorrente", value: proposal.lossCompetitor || "-" },
+          { label: "Observações da Perda", value: proposal.lossNotes || "-" },
+        ]
+      : []),
+  ];
+
+  const statusChanges = statusChangesQuery.data ?? [];
+  const attachments = attachmentsQuery.data ?? [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-6 py-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="icon" asChild title="Voltar">
+              <Link to={`/${search}`}>
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <div className="flex items-center gap-3">
+                <h1 className="text-2xl md:text-3xl font-bold text-foreground">{proposal.clientName}</h1>
+                <Badge variant="outline">{statusLabels[proposal.status]}</Badge>
+              </div>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Proposta enviada em {formatDate(proposal.sentDate)}
+                {proposal.clientId && (
+                  <>
+                    {" · "}
+                    <Link to={`/clients/${proposal.clientId}`} className="hover:underline">
+                      Ver cliente
+                    </Link>
+                  </>
+                )}
+              </p>
+            </div>
+          </div>
+
+          {/* ANTERIOR / PRÓXIMA na ordem da tabela */}
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              title="Proposta anterior (←)"
+              disabled={!neighbors?.previousId}
+              onClick={() => goTo(neighbors?.previousId)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground min-w-[72px] text-center">
+              {neighbors?.position ? `${neighbors.position} de ${neighbors.total}` : "-"}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Próxima proposta (→)"
+              disabled={!neighbors?.nextId}
+              onClick={() => goTo(neighbors?.nextId)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            {canEdit && (
+              <Button onClick={() => setIsDialogOpen(true)} className="gap-2 ml-2">
+                <Edit className="h-4 w-4" /> Editar
+              </Button>
+            )}
+            <img src={logo} alt="Complementare Logo" className="hidden lg:block h-10 w-auto object-contain ml-4" />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-8">
+        {/* DADOS DA PROPOSTA */}
+        <Card className="p-6 border-slate-200 shadow-sm">
+          <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {fields.map((field) => (
+              <div key={field.label}>
+                <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">{field.label}</dt>
+                <dd className="mt-1 font-medium text-foreground">{field.value}</dd>
+              </div>
+            ))}
+          </dl>
+          <div className="mt-6">
+            <h2 className="text-xs font-semibold uppercase tracking-wide text-slate-500">Observações</h2>
+            <p className="mt-1 whitespace-pre-wrap text-sm text-foreground">{proposal.notes || "-"}</p>
+          </div>
+        </Card>
+
+        <Tabs defaultValue="summary" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="summary">Resumo</TabsTrigger>
+            <TabsTrigger value="history" className="gap-2">
+              <History className="h-4 w-4" /> Histórico
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="summary">
+            <div className="grid gap-8 lg:grid-cols-2">
+              {/* FOLLOW-UPS */}
+              <Card className="p-6 border-slate-200 shadow-sm">
+                <h2 className="text-lg font-semibold text-foreground mb-4">Follow-ups</h2>
+                <FollowUpTimeline
+                  proposalId={proposal.id}
+                  onChange={() => invalidateFollowUps(proposal.id)}
+                  readOnly={!canEdit}
+                />
+              </Card>
+
+              <div className="space-y-8">
+                {/* HISTÓRICO DE STATUS */}
+                <Card className="p-6 border-slate-200 shadow-sm">
+                  <h2 className="text-lg font-semibold text-foreground mb-4">Histórico de status</h2>
+                  {statusChanges.length === 0 ? (
+                    <p className="text-sm text-slate-400">Nenhuma mudança de status registrada.</p>
+                  ) : (
+                    <ol className="space-y-3">
+                      {statusChanges.map((change) => (
+                        <li key={change.id} className="flex items-start justify-between gap-4 text-sm">
+                          <span>
+                            {change.fromStatus ? (
+                              <>
+                                {statusLabels[change.fromStatus]} → <strong>{statusLabels[change.toStatus]}</strong>
+                              </>
+                            ) : (
+                              <>
+                                Criada como <strong>{statusLabels[change.toStatus]}</strong>
+                              </>
+                            )}
+                            <span className="block text-xs text-muted-foreground">
+                              {change.changedBy === userId ? "Por você" : "Por outro usuário"}
+                            </span>
+                          </span>
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            {formatDateTime(change.changedAt)}
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </Card>
+
+                {/* ANEXOS */}
+                <Card className="p-6 border-slate-200 shadow-sm">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold text-foreground">Anexos</h2>
+                    {canEdit && (
+                      <>
+                        <input
+                          ref={fileInputRef}
+                          type="file"
+                          multiple
+                          className="hidden"
+                          onChange={(e) => handleUpload(e.target.files)}
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          disabled={uploadAttachment.isPending}
+                          onClick={() => fileInputRef.current?.click()}
+                        >
+                          {uploadAttachment.isPending ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Upload className="h-4 w-4" />
+                          )}
+                          Anexar arquivo
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                  {attachments.length === 0 ? (
+                    <p className="text-sm text-slate-400 flex items-center gap-2">
+                      <Paperclip className="h-4 w-4" /> Nenhum arquivo anexado.
+                    </p>
+                  ) : (
+                    <ul className="divide-y divide-slate-100">
+                      {attachments.map((attachment) => (
+                        <li key={attachment.id} className="flex items-center gap-3 py-2">
+                          <FileText className="h-4 w-4 shrink-0 text-slate-400" />
+                          <div className="min-w-0 flex-1">
+                            <p className="truncate text-sm font-medium">{attachment.fileName}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatFileSize(attachment.size)} · {formatDate(attachment.createdAt)}
+                            </p>
+                          </div>
+                          <Button variant="ghost" size="icon" title="Baixar" onClick={() => handleDownload(attachment)}>
+                            <Download className="h-4 w-4 opacity-70" />
+                          </Button>
+                          {canEdit && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Excluir"
+                              className="hover:bg-red-100 hover:text-red-600"
+                              onClick={() => setDeleteAttachment(attachment)}
+                            >
+                              <Trash2 className="h-4 w-4 opacity-70" />
+                            </Button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </Card>
+              </div>
+            </div>
+          </TabsContent>
+
+          {/* HISTÓRICO: toda alteração gravada pela auditoria, da mais recente para a mais antiga */}
+          <TabsContent value="history">
+            <Card className="p-6 border-slate-200 shadow-sm">
+              {auditQuery.isPending ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : (auditQuery.data ?? []).length === 0 ? (
+                <p className="text-sm text-slate-400">Nenhuma alteração registrada.</p>
+              ) : (
+                <ol className="space-y-4">
+                  {auditQuery.data?.map((entry) => (
+                    <li key={entry.id} className="border-l-2 border-[#25515c]/30 pl-4">
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mb-1">
+                        <Badge variant="outline">{auditOperationLabels[entry.operation]}</Badge>
+                        <span>{formatDateTime(entry.changedAt)}</span>
+                        <span>· {entry.changedBy === userId ? "por você" : "por outro usuário"}</span>
+                      </div>
+                      <AuditChanges entry={entry} />
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </main>
+
+      <ProposalDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onSave={handleSave}
+        proposal={proposal}
+        onFollowUpChange={() => invalidateFollowUps(proposal.id)}
+        lossReasons={lossReasonsQuery.data ?? defaultLossReasons}
+        members={membersQuery.data ?? []}
+      />
+
+      <AlertDialog open={!!deleteAttachment} onOpenChange={(open) => !open && setDeleteAttachment(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir anexo?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleteAttachment?.fileName}" será apagado definitivamente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDeleteAttachment} className="bg-destructive hover:bg-destructive/90">
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ProposalDetail;
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { AuthLayout } from "@/components/AuthLayout";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { EmailFormValues, emailSchema } from "@/lib/auth-schema";
+import { getAuthErrorMessage, sendPasswordReset } from "@/lib/auth";
+
+// "Esqueci minha senha": envia o link que leva a /update-password
+const ResetPassword = () => {
+  const [sentTo, setSentTo] = useState<string>();
+  const form = useForm<EmailFormValues>({
+    resolver: zodResolver(emailSchema),
+    defaultValues: { email: "" },
+  });
+
+  const onSubmit = async ({ email }: EmailFormValues) => {
+    try {
+      await sendPasswordReset(email);
+      setSentTo(email);
+    } catch (error) {
+      console.error(error);
+      form.setError("root", { message: getAuthErrorMessage(error, "Não foi possível enviar o e-mail.") });
+    }
+  };
+
+  return (
+    <AuthLayout title="Recuperar senha" description="Enviaremos um link para você criar uma nova senha">
+      {sentTo ? (
+        <div className="mt-8 rounded-md border border-[#CBEAE2] bg-[#E4F4F0] p-4 text-sm text-[#25515c]">
+          Se houver uma conta para <strong>{sentTo}</strong>, você receberá o link em instantes.
+          Verifique também a caixa de spam.
+        </div>
+      ) : (
+        <Form {...form}>
+          <form className="mt-8 space-y-6" onSubmit={form.handleSubmit(onSubmit)}>
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>E-mail Corporativo</FormLabel>
+                  <FormControl>
+                    <Input type="email" autoComplete="email" placeholder="seu.nome@complementare.com.br" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {form.formState.errors.root && (
+              <p className="text-sm font-medium text-destructive">{form.formState.errors.root.message}</p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Enviar link
+            </Button>
+          </form>
+        </Form>
+      )}
+
+      <Button variant="link" className="w-full text-sm" asChild>
+        <Link to="/login">
+          <ArrowLeft className="mr-1 h-4 w-4" /> Voltar para o login
+        </Link>
+      </Button>
+    </AuthLayout>
+  );
+};
+
+export default ResetPassword;
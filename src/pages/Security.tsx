@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { Link, Navigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { MfaChallenge } from "@/components/MfaChallenge";
+import { OrganizationMembers } from "@/components/OrganizationMembers";
+import { ArrowLeft, Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { TotpEnrollment } from "@/lib/mfa";
+import { getAuthErrorMessage } from "@/lib/auth";
+import { useSession } from "@/hooks/use-session";
+import { useEnrollTotp, useMfaStatus, useUnenrollTotp } from "@/hooks/use-mfa";
+import { useCurrentOrganization, useSetRequireMfa } from "@/hooks/use-organizations";
+import { usePermissions } from "@/hooks/use-permissions";
+import logo from "@/assets/logo.png";
+
+const Security = () => {
+  const { session, isLoading: sessionLoading } = useSession();
+  const mfaQuery = useMfaStatus(session?.user.id);
+  const { organization } = useCurrentOrganization(!!session);
+  const permissions = usePermissions(!!session);
+  const enrollTotp = useEnrollTotp();
+  const unenrollTotp = useUnenrollTotp();
+  const setRequireMfa = useSetRequireMfa();
+  // QR code do cadastro em andamento (some quando o código é confirmado ou o cadastro cancelado)
+  const [enrollment, setEnrollment] = useState<TotpEnrollment>();
+  const [confirmDisable, setConfirmDisable] = useState(false);
+
+  const mfa = mfaQuery.data;
+  const requiredByOrganization = !!organization?.requireMfa;
+
+  const handleEnroll = async () => {
+    try {
+      setEnrollment(await enrollTotp.mutateAsync());
+    } catch (error) {
+      console.error(error);
+      toast.error(getAuthErrorMessage(error, "Erro ao iniciar a verificação em duas etapas."));
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!mfa?.factorId) return;
+    try {
+      await unenrollTotp.mutateAsync(mfa.factorId);
+      toast.success("Verificação em duas etapas desativada.");
+    } catch (error) {
+      console.error(error);
+      toast.error(getAuthErrorMessage(error, "Erro ao desativar."));
+    }
+  };
+
+  const handleRequireMfaChange = async (requireMfa: boolean) => {
+    if (!organization) return;
+    try {
+      await setRequireMfa.mutateAsync({ organizationId: organization.id, requireMfa });
+      toast.success(requireMfa ? "MFA obrigatório para todos os membros." : "MFA deixou de ser obrigatório.");
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao salvar a configuração da organização.");
+    }
+  };
+
+  // Página restrita: sem sessão, volta para a tela de login
+  if (sessionLoading) return null;
+  if (!session) return <Navigate to="/login" replace />;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-6 py-6 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="icon" asChild title="Voltar">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground">Segurança</h1>
+              <p className="mt-1 text-sm text-muted-foreground">Acesso à sua conta e à organização</p>
+            </div>
+          </div>
+          <img src={logo} alt="Complementare Logo" className="h-10 w-auto object-contain" />
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-8">
+        {requiredByOrganization && mfa && !mfa.factorId && (
+          <div className="flex items-start gap-3 rounded-md border border-amber-300 bg-amber-50 p-4 text-sm text-amber-800">
+            <ShieldAlert className="h-5 w-5 shrink-0" />
+            A organização {organization?.name} exige verificação em duas etapas. Ative abaixo para voltar a
+            ver as propostas.
+          </div>
+        )}
+
+        {/* MFA DO USUÁRIO */}
+        <Card className="p-6 border-slate-200 shadow-sm">
+          <div className="mb-6 flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <h2 className="text-lg font-semibold text-foreground">Verificação em duas etapas</h2>
+              <p className="text-sm text-muted-foreground">
+                Além da senha, pede um código de 6 dígitos gerado por um aplicativo autenticador
+                (Google Authenticator, Microsoft Authenticator, 1Password...).
+              </p>
+            </div>
+            {mfa?.factorId && (
+              <Badge variant="outline" className="gap-1 border-green-600 bg-green-50 text-green-700">
+                <ShieldCheck className="h-3 w-3" /> Ativada
+              </Badge>
+            )}
+          </div>
+
+          {mfaQuery.isPending ? (
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          ) : mfaQuery.isError ? (
+            <p className="text-sm text-destructive">Erro ao carregar o status da verificação.</p>
+          ) : mfa?.factorId ? (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {requiredByOrganization
+                  ? "Obrigatória na organização atual: só um administrador pode liberar a desativação."
+                  : "Ao entrar, o sistema vai pedir o código do aplicativo depois da senha."}
+              </p>
+              <Button
+                variant="outline"
+                className="text-destructive"
+                disabled={requiredByOrganization || unenrollTotp.isPending}
+                onClick={() => setConfirmDisable(true)}
+              >
+                Desativar
+              </Button>
+            </div>
+          ) : enrollment ? (
+            <div className="grid gap-6 md:grid-cols-[auto_1fr] items-start">
+              <img
+                src={enrollment.qrCode}
+                alt="QR code para o aplicativo autenticador"
+                className="h-44 w-44 rounded-md border bg-white p-2"
+              />
+              <div className="max-w-sm space-y-4">
+                <ol className="list-decimal space-y-1 pl-4 text-sm text-muted-foreground">
+                  <li>Abra o aplicativo autenticador e leia o QR code.</li>
+                  <li>
+                    Sem câmera? Digite a chave{" "}
+                    <code className="break-all rounded bg-slate-100 px-1 text-xs text-foreground">{enrollment.secret}</code>
+                  </li>
+                  <li>Confirme com o código de 6 dígitos que aparece no aplicativo.</li>
+                </ol>
+                <MfaChallenge
+                  factorId={enrollment.factorId}
+                  submitLabel="Ativar"
+                  onVerified={() => {
+                    setEnrollment(undefined);
+                    toast.success("Verificação em duas etapas ativada!");
+                  }}
+                />
+                <Button variant="ghost" size="sm" className="w-full" onClick={() => setEnrollment(undefined)}>
+                  Cancelar
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button onClick={handleEnroll} disabled={enrollTotp.isPending} className="gap-2">
+              {enrollTotp.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+              Ativar verificação em duas etapas
+            </Button>
+          )}
+        </Card>
+
+        {/* MFA OBRIGATÓRIO NA ORGANIZAÇÃO (só admins) */}
+        {permissions.isAdmin && organization && (
+          <Card className="p-6 border-slate-200 shadow-sm">
+            <div className="mb-6">
+              <h2 className="text-lg font-semibold text-foreground">Organização {organization.name}</h2>
+              <p className="text-sm text-muted-foreground">
+                Com o MFA obrigatório, quem não ativou a verificação em duas etapas deixa de ver as propostas
+                até ativar.
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="require-mfa"
+                checked={organization.requireMfa}
+                disabled={setRequireMfa.isPending || (!organization.requireMfa && !mfa?.isVerified)}
+                onCheckedChange={handleRequireMfaChange}
+              />
+              <Label htmlFor="require-mfa">Exigir verificação em duas etapas de todos os membros</Label>
+            </div>
+            {!organization.requireMfa && !mfa?.isVerified && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                Ative a verificação em duas etapas na sua conta antes de exigir dos outros membros.
+              </p>
+            )}
+          </Card>
+        )}
+
+        {/* MEMBROS DA ORGANIZAÇÃO (só admins) */}
+        {permissions.isAdmin && <OrganizationMembers currentUserId={session.user.id} />}
+      </main>
+
+      <AlertDialog open={confirmDisable} onOpenChange={setConfirmDisable}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Desativar verificação em duas etapas?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Sua conta volta a ser protegida apenas pela senha.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDisable} className="bg-red-600 hover:bg-red-700">
+              Desativar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Security;
@@ -0,0 +1,250 @@
+import { useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { LossReasonsSettings } from "@/components/LossReasonsSettings";
+import { TrashSettings } from "@/components/TrashSettings";
+import { ArrowLeft, Loader2, Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { useFollowUpBands, useSaveFollowUpBands } from "@/hooks/use-follow-up-bands";
+import {
+  FollowUpBandsFormValues,
+  NO_ICON,
+  followUpBandIcons,
+  followUpBandsSchema,
+  fromFollowUpBandsForm,
+  toFollowUpBandsForm,
+} from "@/lib/follow-up-bands";
+import { FollowUpBandIcon, defaultFollowUpBands, followUpBandIconLabels } from "@/types/follow-up-band";
+import logo from "@/assets/logo.png";
+
+const Settings = () => {
+  const navigate = useNavigate();
+  const bandsQuery = useFollowUpBands();
+  const saveBands = useSaveFollowUpBands();
+
+  const form = useForm<FollowUpBandsFormValues>({
+    resolver: zodResolver(followUpBandsSchema),
+    defaultValues: toFollowUpBandsForm(defaultFollowUpBands),
+  });
+  const { fields, insert, remove } = useFieldArray({ control: form.control, name: "bands" });
+
+  // Página restrita: sem sessão, volta para a tela de login
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) navigate("/login");
+    });
+  }, [navigate]);
+
+  useEffect(() => {
+    if (bandsQuery.data) form.reset(toFollowUpBandsForm(bandsQuery.data));
+  }, [bandsQuery.data, form]);
+
+  const onSubmit = async (values: FollowUpBandsFormValues) => {
+    try {
+      await saveBands.mutateAsync(fromFollowUpBandsForm(values));
+      toast.success("Faixas de follow-up salvas!");
+    } catch (error) {
+      console.error(error);
+      toast.error("Erro ao salvar configurações.");
+    }
+  };
+
+  // Nova faixa entra antes da última, que é sempre a sem limite
+  const addBand = () =>
+    insert(Math.max(fields.length - 1, 0), { maxDays: "", label: "", color: "#E4F4F0", icon: NO_ICON });
+
+  if (bandsQuery.isPending) {
+    return (
+      <div className="flex min-h-screen justify-center items-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando dados...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-6 py-6 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="icon" asChild title="Voltar">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground">Configurações</h1>
+              <p className="mt-1 text-sm text-muted-foreground">Preferências do controle de propostas</p>
+            </div>
+          </div>
+          <img src={logo} alt="Complementare Logo" className="h-10 w-auto object-contain" />
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-8">
+        {/* FAIXAS DE FOLLOW-UP */}
+        <Card className="p-6 border-slate-200 shadow-sm">
+          <div className="mb-6">
+            <h2 className="text-lg font-semibold text-foreground">Faixas de follow-up</h2>
+            <p className="text-sm text-muted-foreground">
+              Definem a cor e o ícone das propostas em aberto, conforme os dias desde o último contato.
+              Usadas na tabela e no painel.
+            </p>
+          </div>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {fields.map((field, index) => {
+                const isLast = index === fields.length - 1;
+                const band = form.watch(`bands.${index}`);
+                const Icon = band.icon !== NO_ICON && followUpBandIcons[band.icon as FollowUpBandIcon];
+
+                return (
+                  <div key={field.id} className="grid gap-4 items-start md:grid-cols-[120px_1fr_90px_160px_1fr_auto]">
+                    <FormField
+                      control={form.control}
+                      name={`bands.${index}.maxDays`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Até (dias)</FormLabel>
+                          <FormControl>
+                            {isLast ? (
+                              <Input disabled value="Sem limite" />
+                            ) : (
+                              <Input type="number" min={1} step={1} {...field} />
+                            )}
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`bands.${index}.label`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Nome</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Ex: Em dia" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`bands.${index}.color`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Cor</FormLabel>
+                          <FormControl>
+                            <Input type="color" className="p-1 cursor-pointer" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`bands.${index}.icon`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Ícone</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={NO_ICON}>Nenhum</SelectItem>
+                              {Object.entries(followUpBandIconLabels).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>
+                                  {label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+
+                    {/* Prévia de como a linha aparece na tabela */}
+                    <div>
+                      <span className="text-sm font-medium">Prévia</span>
+                      <div
+                        className="mt-2 flex h-10 items-center gap-1 rounded-md px-3 text-sm font-medium text-[#25515c]"
+                        style={{ backgroundColor: band.color }}
+                      >
+                        {Icon && <Icon className="h-4 w-4" />}
+                        {band.label || "-"}
+                      </div>
+                    </div>
+
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="md:mt-8 text-destructive"
+                      title="Remover faixa"
+                      disabled={fields.length === 1}
+                      onClick={() => remove(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+
+              <div className="flex flex-wrap justify-between gap-2 pt-2">
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" onClick={addBand} className="gap-2">
+                    <Plus className="h-4 w-4" /> Adicionar faixa
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => form.reset(toFollowUpBandsForm(defaultFollowUpBands))}
+                    className="gap-2"
+                  >
+                    <RotateCcw className="h-4 w-4" /> Restaurar padrão
+                  </Button>
+                </div>
+                <Button type="submit" disabled={saveBands.isPending} className="gap-2">
+                  {saveBands.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                  Salvar
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </Card>
+
+        <LossReasonsSettings />
+
+        <TrashSettings />
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { AuthLayout } from "@/components/AuthLayout";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { UpdatePasswordFormValues, updatePasswordSchema } from "@/lib/auth-schema";
+import { getAuthErrorMessage, getUrlAuthError, updatePassword } from "@/lib/auth";
+import { useSession } from "@/hooks/use-session";
+
+// Destino do link de recuperação: o Supabase abre uma sessão só para trocar a senha
+const UpdatePassword = () => {
+  const navigate = useNavigate();
+  const { session, isLoading } = useSession();
+  // Lido na abertura: o cliente do Supabase limpa a URL depois de processar o link
+  const [linkError] = useState(getUrlAuthError);
+  const form = useForm<UpdatePasswordFormValues>({
+    resolver: zodResolver(updatePasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const onSubmit = async ({ password }: UpdatePasswordFormValues) => {
+    try {
+      await updatePassword(password);
+      toast.success("Senha alterada!");
+      navigate("/", { replace: true });
+    } catch (error) {
+      console.error(error);
+      form.setError("root", { message: getAuthErrorMessage(error, "Não foi possível alterar a senha.") });
+    }
+  };
+
+  if (isLoading) return null;
+
+  return (
+    <AuthLayout title="Nova senha" description="Escolha a senha que você vai usar para entrar">
+      {!session ? (
+        <div className="mt-8 space-y-4 text-center">
+          <p className="text-sm font-medium text-destructive">
+            {linkError ?? "Link inválido ou expirado. Peça um novo."}
+          </p>
+          <Button asChild className="w-full">
+            <Link to="/reset-password">Pedir novo link</Link>
+          </Button>
+        </div>
+      ) : (
+        <Form {...form}>
+          <form className="mt-8 space-y-6" onSubmit={form.handleSubmit(onSubmit)}>
+            <div className="space-y-4">
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nova senha</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirme a nova senha</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {form.formState.errors.root && (
+              <p className="text-sm font-medium text-destructive">{form.formState.errors.root.message}</p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar nova senha
+            </Button>
+          </form>
+        </Form>
+      )}
+    </AuthLayout>
+  );
+};
+
+export default UpdatePassword;
@@ -0,0 +1,29 @@
+import { Tables } from "@/integrations/supabase/types";
+
+export type AuditOperation = "INSERT" | "UPDATE" | "DELETE";
+
+export const auditOperationLabels: Record<AuditOperation, string> = {
+  INSERT: "Criação",
+  UPDATE: "Alteração",
+  DELETE: "Exclusão",
+};
+
+// Linha de proposals como ficou gravada no JSON da auditoria
+export type AuditSnapshot = Partial<Tables<"proposals">>;
+
+export interface AuditEntry {
+  id: string;
+  proposalId: string;
+  operation: AuditOperation;
+  changedBy?: string;
+  changedAt: Date;
+  oldData?: AuditSnapshot;
+  newData?: AuditSnapshot;
+}
+
+export interface AuditChange {
+  field: string;
+  label: string;
+  from: string;
+  to: string;
+}
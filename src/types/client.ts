@@ -0,0 +1,8 @@
+export interface Client {
+  id: string;
+  name: string;
+  cnpj?: string;
+  contacts?: string;
+  phone?: string;
+  email?: string;
+}
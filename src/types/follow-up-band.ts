@@ -0,0 +1,24 @@
+export type FollowUpBandIcon = "clock" | "alert-circle" | "alert-triangle" | "flame";
+
+// Faixa de tempo sem contato de uma proposta aguardando (ver tabela follow_up_bands)
+export interface FollowUpBand {
+  maxDays: number | null; // Limite em dias; null = última faixa, sem limite
+  label: string;
+  color: string; // Fundo da linha na tabela, em hex
+  icon?: FollowUpBandIcon;
+}
+
+export const followUpBandIconLabels: Record<FollowUpBandIcon, string> = {
+  clock: "Relógio",
+  "alert-circle": "Alerta",
+  "alert-triangle": "Atenção",
+  flame: "Urgente",
+};
+
+// Usadas enquanto o usuário não configurar as próprias faixas
+export const defaultFollowUpBands: FollowUpBand[] = [
+  { maxDays: 15, label: "Em dia", color: "#E4F4F0" },
+  { maxDays: 30, label: "Esfriando", color: "#CBEAE2" },
+  { maxDays: 90, label: "Atrasada", color: "#E5F2F6", icon: "alert-circle" },
+  { maxDays: null, label: "Parada", color: "#D8E3E6", icon: "alert-triangle" },
+];
@@ -0,0 +1,23 @@
+import { Database } from "@/integrations/supabase/types";
+
+export interface Organization {
+  id: string;
+  name: string;
+  requireMfa: boolean; // Todos os membros precisam da verificação em duas etapas
+}
+
+export type MembershipRole = Database["public"]["Enums"]["membership_role"];
+
+export const membershipRoleLabels: Record<MembershipRole, string> = {
+  admin: "Administrador",
+  seller: "Vendedor",
+  viewer: "Leitor",
+};
+
+// Membro da organização atual, com nome para exibição (ver get_organization_members)
+export interface OrganizationMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: MembershipRole;
+}
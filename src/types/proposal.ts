@@ -1,13 +1,103 @@
-export type ProposalStatus = "pending" | "approved" | "rejected";
+export type ProposalStatus =
+  | "draft"
+  | "sent"
+  | "pending"
+  | "negotiating"
+  | "approved"
+  | "rejected"
+  | "expired"
+  | "cancelled";
+
+// Na ordem do enum proposal_status (a mesma da ordenação por status)
+export const statusLabels: Record<ProposalStatus, string> = {
+  draft: "Rascunho",
+  sent: "Enviada",
+  pending: "Aguardando",
+  negotiating: "Em negociação",
+  approved: "Aprovada",
+  rejected: "Recusada",
+  expired: "Expirada",
+  cancelled: "Cancelada",
+};
+
+// Cor de cada status nos gráficos (previsão do Dashboard e página de análises)
+export const statusChartColors: Record<ProposalStatus, string> = {
+  draft: "#cbd5e1",
+  sent: "#7dd3fc",
+  pending: "#0e6e7c",
+  negotiating: "#f59e0b",
+  approved: "#16a34a",
+  rejected: "#dc2626",
+  expired: "#fb923c",
+  cancelled: "#94a3b8",
+};
+
+// Canais de envio/contato (enum proposal_channel), usados no campo "Enviado por" e nos follow-ups
+export type ProposalChannel = "email" | "whatsapp" | "other";
+
+export const channelLabels: Record<ProposalChannel, string> = {
+  email: "E-mail",
+  whatsapp: "WhatsApp",
+  other: "Outro",
+};
+
+export const sentViaOptions = (Object.keys(channelLabels) as ProposalChannel[]).map((value) => ({
+  value,
+  label: channelLabels[value],
+}));
 
 export interface Proposal {
   id: string;
+  ownerId?: string; // Vendedor responsável; vazio = sem responsável (ou ainda não definido)
+  clientId?: string;
   clientName: string;
   sentDate: Date;
   value: number;
   status: ProposalStatus;
-  sentVia?: string; // Novo campo adicionado aqui
-  lastFollowUp: Date;
+  sentVia?: ProposalChannel;
+  lastFollowUp: Date; // Derivado do follow-up mais recente (ver proposal_follow_ups)
   expectedReturnDate?: Date;
+  winProbability?: number; // 0 a 100; vazio = padrão do status (ver defaultWinProbability)
   notes: string;
+  // Preenchidos só quando a proposta é recusada
+  lossReason?: string;
+  lossCompetitor?: string;
+  lossNotes?: string;
+  deletedAt?: Date; // Preenchido só nas propostas da lixeira
+}
+
+export type LossDetails = Pick<Proposal, "lossReason" | "lossCompetitor" | "lossNotes">;
+
+// Motivos oferecidos ao recusar enquanto o usuário não configurar a própria lista
+export const defaultLossReasons = ["Preço", "Prazo", "Concorrente", "Escopo", "Sem resposta"];
+
+// contacted = contato registrado sem detalhar o resultado (ex.: "Contatado hoje" da Inbox)
+export type FollowUpOutcome = "contacted" | "no_answer" | "call_back" | "negotiating" | "interested" | "declined";
+
+export interface FollowUp {
+  id: string;
+  proposalId: string;
+  contactedAt: Date;
+  channel?: ProposalChannel;
+  outcome: FollowUpOutcome;
+  note: string;
+}
+
+// Linha do histórico de status (gravada por trigger no banco)
+export interface StatusChange {
+  id: string;
+  fromStatus?: ProposalStatus; // Vazio na criação da proposta
+  toStatus: ProposalStatus;
+  changedBy?: string;
+  changedAt: Date;
+}
+
+export interface ProposalAttachment {
+  id: string;
+  proposalId: string;
+  fileName: string;
+  storagePath: string;
+  size: number; // Em bytes
+  contentType?: string;
+  createdAt: Date;
 }
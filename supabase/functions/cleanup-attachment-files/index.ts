@@ -0,0 +1,45 @@
+// Apaga do Storage os arquivos dos anexos que saíram do banco (fila attachment_files_to_delete).
+// Roda todo dia pelo pg_cron e logo depois de uma limpeza manual da lixeira; só apaga o que está
+// na fila, então pode ser chamada por qualquer usuário logado.
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const BUCKET = "proposal-attachments";
+// Limite de caminhos por chamada de remove
+const BATCH_SIZE = 100;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  let deleted = 0;
+
+  for (;;) {
+    const { data, error } = await supabase
+      .from("attachment_files_to_delete")
+      .select("storage_path")
+      .order("queued_at")
+      .limit(BATCH_SIZE);
+    if (error) return json({ error: error.message }, 500);
+    if (data.length === 0) break;
+
+    const paths = data.map((row) => row.storage_path);
+    // Arquivo que já não existe não dá erro: só sai da fila
+    const { error: storageError } = await supabase.storage.from(BUCKET).remove(paths);
+    if (storageError) return json({ error: storageError.message, deleted }, 500);
+
+    const { error: queueError } = await supabase.from("attachment_files_to_delete").delete().in("storage_path", paths);
+    if (queueError) return json({ error: queueError.message, deleted }, 500);
+
+    deleted += paths.length;
+  }
+
+  return json({ deleted });
+});
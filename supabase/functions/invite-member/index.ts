@@ -0,0 +1,43 @@
+// Convida para a organização atual de quem chama um e-mail que ainda não tem conta.
+// O convite é registrado com o JWT do chamador (create_organization_invite confere se é admin);
+// só depois a chave de serviço envia o e-mail. handle_new_user cria a associação quando o convidado
+// confirma o e-mail (ao aceitar o convite).
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+const roles = ["admin", "seller", "viewer"];
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const { email, role, redirectTo } = await req.json().catch(() => ({}));
+  if (typeof email !== "string" || !email.includes("@") || !roles.includes(role)) {
+    return json({ error: "E-mail ou papel inválido" }, 400);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+  const { error: inviteError } = await userClient.rpc("create_organization_invite", {
+    member_email: email,
+    member_role: role,
+  });
+  if (inviteError) return json({ error: inviteError.message }, inviteError.code === "42501" ? 403 : 400);
+
+  const adminClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const { error } = await adminClient.auth.admin.inviteUserByEmail(email.trim(), {
+    redirectTo: typeof redirectTo === "string" ? redirectTo : undefined,
+  });
+  if (error) return json({ error: error.message, code: error.code }, error.status ?? 400);
+
+  return json({ invited: true });
+});
@@ -0,0 +1,68 @@
+-- Histórico de follow-ups: cada contato vira uma linha em vez de sobrescrever last_follow_up
+CREATE TABLE public.proposal_follow_ups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id UUID NOT NULL REFERENCES public.proposals(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  contacted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  channel TEXT,
+  outcome TEXT NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.proposal_follow_ups ENABLE ROW LEVEL SECURITY;
+
+-- Mesmas regras da tabela proposals
+CREATE POLICY "Users can view their own follow-ups"
+  ON public.proposal_follow_ups
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own follow-ups"
+  ON public.proposal_follow_ups
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.proposals p
+      WHERE p.id = proposal_id AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own follow-ups"
+  ON public.proposal_follow_ups
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own follow-ups"
+  ON public.proposal_follow_ups
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- proposals.last_follow_up passa a ser derivado do contato mais recente
+CREATE OR REPLACE FUNCTION public.sync_proposal_last_follow_up()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_id UUID := COALESCE(NEW.proposal_id, OLD.proposal_id);
+BEGIN
+  UPDATE public.proposals
+  SET last_follow_up = COALESCE(
+    (SELECT max(contacted_at) FROM public.proposal_follow_ups WHERE proposal_id = target_id),
+    last_follow_up
+  )
+  WHERE id = target_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_proposal_last_follow_up
+  AFTER INSERT OR UPDATE OR DELETE ON public.proposal_follow_ups
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_proposal_last_follow_up();
+
+CREATE INDEX idx_proposal_follow_ups_proposal_id ON public.proposal_follow_ups(proposal_id, contacted_at DESC);
@@ -0,0 +1,81 @@
+-- Clientes como entidade própria (antes era texto livre em proposals.client_name)
+CREATE TABLE public.clients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  cnpj TEXT,
+  contacts TEXT,
+  phone TEXT,
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.clients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own clients"
+  ON public.clients
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own clients"
+  ON public.clients
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own clients"
+  ON public.clients
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own clients"
+  ON public.clients
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_clients_updated_at
+  BEFORE UPDATE ON public.clients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_clients_user_id ON public.clients(user_id);
+CREATE UNIQUE INDEX idx_clients_user_cnpj ON public.clients(user_id, cnpj) WHERE cnpj IS NOT NULL;
+
+-- Vincula propostas ao cliente
+ALTER TABLE public.proposals
+ADD COLUMN client_id UUID REFERENCES public.clients(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_proposals_client_id ON public.proposals(client_id);
+
+-- Backfill: um cliente por nome distinto (ignorando caixa e espaços) de cada usuário
+INSERT INTO public.clients (user_id, name)
+SELECT DISTINCT ON (user_id, lower(trim(client_name))) user_id, trim(client_name)
+FROM public.proposals
+ORDER BY user_id, lower(trim(client_name)), created_at;
+
+UPDATE public.proposals p
+SET client_id = c.id
+FROM public.clients c
+WHERE c.user_id = p.user_id
+  AND lower(c.name) = lower(trim(p.client_name));
+
+-- client_name continua na proposta para busca e ordenação; mantém em sincronia com o cadastro
+CREATE OR REPLACE FUNCTION public.sync_proposals_client_name()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE public.proposals SET client_name = NEW.name WHERE client_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_proposals_client_name
+  AFTER UPDATE OF name ON public.clients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_proposals_client_name();
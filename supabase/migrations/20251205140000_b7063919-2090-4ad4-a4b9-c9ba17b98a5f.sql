@@ -0,0 +1,18 @@
+-- Totais do Dashboard calculados no banco, independentes da paginação da tabela.
+-- SECURITY INVOKER: as políticas de RLS de proposals continuam valendo.
+CREATE OR REPLACE FUNCTION public.get_proposal_totals()
+RETURNS TABLE (status proposal_status, count BIGINT, total_value NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT p.status, count(*), coalesce(sum(p.value), 0)
+  FROM public.proposals p
+  GROUP BY p.status;
+$$;
+
+-- Índices para as ordenações e filtros feitos no servidor
+CREATE INDEX idx_proposals_sent_date ON public.proposals(sent_date);
+CREATE INDEX idx_proposals_last_follow_up ON public.proposals(last_follow_up);
+CREATE INDEX idx_proposals_value ON public.proposals(value);
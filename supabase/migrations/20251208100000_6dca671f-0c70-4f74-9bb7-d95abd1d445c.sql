@@ -0,0 +1,21 @@
+-- Quem fez a última alteração, para o app destacar mudanças feitas por outra pessoa
+ALTER TABLE public.proposals
+ADD COLUMN updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+UPDATE public.proposals SET updated_by = user_id;
+
+CREATE OR REPLACE FUNCTION public.set_proposals_updated_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_by = COALESCE(auth.uid(), NEW.updated_by);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_proposals_updated_by
+  BEFORE INSERT OR UPDATE ON public.proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_proposals_updated_by();
+
+-- Publica as mudanças de proposals no Supabase Realtime (respeita o RLS de SELECT)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.proposals;
@@ -0,0 +1,64 @@
+-- Faixas de envelhecimento do follow-up (cor e ícone por dias sem contato), configuráveis por usuário.
+-- Sem linhas cadastradas, o app usa as faixas padrão (15/30/90 dias).
+CREATE TABLE public.follow_up_bands (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  max_days INTEGER CHECK (max_days > 0), -- NULL = última faixa, sem limite
+  label TEXT NOT NULL,
+  color TEXT NOT NULL CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  icon TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.follow_up_bands ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own follow-up bands"
+  ON public.follow_up_bands
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own follow-up bands"
+  ON public.follow_up_bands
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own follow-up bands"
+  ON public.follow_up_bands
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own follow-up bands"
+  ON public.follow_up_bands
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_follow_up_bands_updated_at
+  BEFORE UPDATE ON public.follow_up_bands
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_follow_up_bands_user_id ON public.follow_up_bands(user_id);
+-- Uma única faixa sem limite por usuário
+CREATE UNIQUE INDEX idx_follow_up_bands_user_open ON public.follow_up_bands(user_id) WHERE max_days IS NULL;
+CREATE UNIQUE INDEX idx_follow_up_bands_user_max_days ON public.follow_up_bands(user_id, max_days);
+
+-- A tela de configurações salva a lista inteira; apagar e inserir na mesma transação
+-- evita ficar com as faixas pela metade se algo falhar no meio.
+CREATE OR REPLACE FUNCTION public.save_follow_up_bands(bands JSONB)
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  DELETE FROM public.follow_up_bands WHERE user_id = auth.uid();
+
+  INSERT INTO public.follow_up_bands (max_days, label, color, icon)
+  SELECT (b->>'max_days')::INTEGER, b->>'label', b->>'color', NULLIF(b->>'icon', '')
+  FROM jsonb_array_elements(bands) AS b;
+$$;
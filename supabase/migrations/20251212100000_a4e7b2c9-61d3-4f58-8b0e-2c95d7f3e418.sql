@@ -0,0 +1,31 @@
+-- Canal de envio/contato como enum. O app já gravava sent_via, mas nenhuma migration criava a
+-- coluna; em bases onde ela foi criada à mão (texto livre), os valores são convertidos.
+CREATE TYPE proposal_channel AS ENUM ('email', 'whatsapp', 'other');
+
+ALTER TABLE public.proposals
+ADD COLUMN IF NOT EXISTS sent_via TEXT;
+
+ALTER TABLE public.proposals
+ALTER COLUMN sent_via TYPE proposal_channel USING (
+  CASE
+    WHEN sent_via IS NULL OR trim(sent_via) = '' THEN NULL
+    WHEN lower(trim(sent_via)) IN ('email', 'e-mail') THEN 'email'
+    WHEN lower(trim(sent_via)) = 'whatsapp' THEN 'whatsapp'
+    ELSE 'other'
+  END
+)::proposal_channel;
+
+-- O histórico de follow-ups usa os mesmos canais
+ALTER TABLE public.proposal_follow_ups
+ALTER COLUMN channel TYPE proposal_channel USING (
+  CASE
+    WHEN channel IS NULL OR trim(channel) = '' THEN NULL
+    WHEN lower(trim(channel)) IN ('email', 'e-mail') THEN 'email'
+    WHEN lower(trim(channel)) = 'whatsapp' THEN 'whatsapp'
+    ELSE 'other'
+  END
+)::proposal_channel;
+
+-- O insert do app não envia user_id; sem default a linha era recusada (NOT NULL + RLS)
+ALTER TABLE public.proposals
+ALTER COLUMN user_id SET DEFAULT auth.uid();
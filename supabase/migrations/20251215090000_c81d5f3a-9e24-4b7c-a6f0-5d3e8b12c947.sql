@@ -0,0 +1,8 @@
+-- Ciclo de vida completo da proposta. A ordem de declaração é a usada ao ordenar por status:
+-- draft, sent, pending, negotiating, approved, rejected, expired, cancelled.
+-- As transições permitidas ficam em src/lib/proposal-status.ts.
+ALTER TYPE proposal_status ADD VALUE IF NOT EXISTS 'draft' BEFORE 'pending';
+ALTER TYPE proposal_status ADD VALUE IF NOT EXISTS 'sent' BEFORE 'pending';
+ALTER TYPE proposal_status ADD VALUE IF NOT EXISTS 'negotiating' AFTER 'pending';
+ALTER TYPE proposal_status ADD VALUE IF NOT EXISTS 'expired' AFTER 'rejected';
+ALTER TYPE proposal_status ADD VALUE IF NOT EXISTS 'cancelled' AFTER 'expired';
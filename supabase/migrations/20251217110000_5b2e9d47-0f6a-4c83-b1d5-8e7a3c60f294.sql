@@ -0,0 +1,73 @@
+-- Motivo da perda em propostas recusadas (texto do motivo escolhido, concorrente e observação)
+ALTER TABLE public.proposals
+ADD COLUMN loss_reason TEXT,
+ADD COLUMN loss_competitor TEXT,
+ADD COLUMN loss_notes TEXT;
+
+-- Lista de motivos oferecida ao recusar, configurável por usuário.
+-- Sem linhas cadastradas, o app usa a lista padrão (preço, prazo, concorrente, escopo, sem resposta).
+CREATE TABLE public.loss_reasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.loss_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own loss reasons"
+  ON public.loss_reasons
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own loss reasons"
+  ON public.loss_reasons
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own loss reasons"
+  ON public.loss_reasons
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own loss reasons"
+  ON public.loss_reasons
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_loss_reasons_user_id ON public.loss_reasons(user_id);
+CREATE UNIQUE INDEX idx_loss_reasons_user_label ON public.loss_reasons(user_id, lower(label));
+
+-- Salva a lista inteira na ordem recebida (mesma ideia de save_follow_up_bands)
+CREATE OR REPLACE FUNCTION public.save_loss_reasons(reasons TEXT[])
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  DELETE FROM public.loss_reasons WHERE user_id = auth.uid();
+
+  INSERT INTO public.loss_reasons (label, position)
+  SELECT trim(r.label), r.position
+  FROM unnest(reasons) WITH ORDINALITY AS r(label, position);
+$$;
+
+-- Painel de perdas do Dashboard: valor recusado por motivo e concorrente
+CREATE OR REPLACE FUNCTION public.get_loss_breakdown()
+RETURNS TABLE (loss_reason TEXT, loss_competitor TEXT, count BIGINT, total_value NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT p.loss_reason, nullif(trim(p.loss_competitor), ''), count(*), coalesce(sum(p.value), 0)
+  FROM public.proposals p
+  WHERE p.status = 'rejected'
+  GROUP BY 1, 2;
+$$;
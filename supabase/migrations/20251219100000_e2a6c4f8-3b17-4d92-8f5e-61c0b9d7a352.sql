@@ -0,0 +1,18 @@
+-- Probabilidade de ganho (0 a 100). NULL = padrão do status, definido no app
+-- (defaultWinProbability em src/lib/proposal-status.ts).
+ALTER TABLE public.proposals
+ADD COLUMN win_probability SMALLINT CHECK (win_probability BETWEEN 0 AND 100);
+
+-- Base da previsão do Dashboard: valores agrupados por mês de retorno previsto, status e
+-- probabilidade. O app aplica os padrões por status e monta o pipeline ponderado.
+CREATE OR REPLACE FUNCTION public.get_pipeline_forecast()
+RETURNS TABLE (month DATE, status proposal_status, win_probability SMALLINT, count BIGINT, total_value NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT date_trunc('month', p.expected_return_date)::date, p.status, p.win_probability, count(*), coalesce(sum(p.value), 0)
+  FROM public.proposals p
+  GROUP BY 1, 2, 3;
+$$;
@@ -0,0 +1,14 @@
+-- Série mensal da página de análises: propostas por mês de envio e status.
+-- range_end é exclusivo (primeiro dia do mês seguinte ao fim do período).
+CREATE OR REPLACE FUNCTION public.get_monthly_stats(range_start DATE, range_end DATE)
+RETURNS TABLE (month DATE, status proposal_status, count BIGINT, total_value NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT date_trunc('month', p.sent_date)::date, p.status, count(*), coalesce(sum(p.value), 0)
+  FROM public.proposals p
+  WHERE p.sent_date >= range_start AND p.sent_date < range_end
+  GROUP BY 1, 2;
+$$;
@@ -0,0 +1,22 @@
+-- Totais do Dashboard passam a respeitar os filtros compartilhados com a tabela
+-- (período de envio e canal). Sem parâmetros, continua somando tudo.
+DROP FUNCTION IF EXISTS public.get_proposal_totals();
+
+CREATE OR REPLACE FUNCTION public.get_proposal_totals(
+  date_start TIMESTAMPTZ DEFAULT NULL,
+  date_end TIMESTAMPTZ DEFAULT NULL,
+  channel proposal_channel DEFAULT NULL
+)
+RETURNS TABLE (status proposal_status, count BIGINT, total_value NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT p.status, count(*), coalesce(sum(p.value), 0)
+  FROM public.proposals p
+  WHERE (date_start IS NULL OR p.sent_date >= date_start)
+    AND (date_end IS NULL OR p.sent_date <= date_end)
+    AND (channel IS NULL OR p.sent_via = channel)
+  GROUP BY p.status;
+$$;
@@ -0,0 +1,44 @@
+-- Visões salvas da tabela de propostas: busca, filtros e ordenação com um nome,
+-- guardados como a query string da URL (sem a página).
+CREATE TABLE public.saved_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  query_string TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Salvar de novo com o mesmo nome sobrescreve a visão (upsert)
+  CONSTRAINT saved_views_user_name_key UNIQUE (user_id, name)
+);
+
+-- Enable RLS
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved views"
+  ON public.saved_views
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved views"
+  ON public.saved_views
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved views"
+  ON public.saved_views
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved views"
+  ON public.saved_views
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_views_updated_at
+  BEFORE UPDATE ON public.saved_views
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
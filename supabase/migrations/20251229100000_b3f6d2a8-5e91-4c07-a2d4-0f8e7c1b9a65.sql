@@ -0,0 +1,111 @@
+-- Histórico de status de cada proposta, gravado por trigger (pega também as ações em massa
+-- e o arraste no quadro, que fazem só um UPDATE de status)
+CREATE TABLE public.proposal_status_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id UUID NOT NULL REFERENCES public.proposals(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- Dono da proposta (RLS)
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  from_status proposal_status, -- NULL na criação
+  to_status proposal_status NOT NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.proposal_status_changes ENABLE ROW LEVEL SECURITY;
+
+-- Só leitura pelo app: as linhas vêm do trigger
+CREATE POLICY "Users can view their own status changes"
+  ON public.proposal_status_changes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.record_proposal_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.proposal_status_changes (proposal_id, user_id, changed_by, from_status, to_status)
+    VALUES (
+      NEW.id,
+      NEW.user_id,
+      COALESCE(auth.uid(), NEW.updated_by),
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_proposal_status_change
+  AFTER INSERT OR UPDATE OF status ON public.proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_proposal_status_change();
+
+CREATE INDEX idx_proposal_status_changes_proposal_id ON public.proposal_status_changes(proposal_id, changed_at DESC);
+
+-- Anexos das propostas: arquivo no Storage (bucket privado) + metadados na tabela.
+-- Caminho no bucket: <user_id>/<proposal_id>/<uuid>-<nome do arquivo>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('proposal-attachments', 'proposal-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.proposal_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id UUID NOT NULL REFERENCES public.proposals(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  content_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.proposal_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Mesmas regras de proposal_follow_ups
+CREATE POLICY "Users can view their own attachments"
+  ON public.proposal_attachments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own attachments"
+  ON public.proposal_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.proposals p
+      WHERE p.id = proposal_id AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own attachments"
+  ON public.proposal_attachments
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_proposal_attachments_proposal_id ON public.proposal_attachments(proposal_id, created_at);
+
+-- Arquivos no bucket: cada usuário só mexe na própria pasta
+CREATE POLICY "Users can view their own attachment files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'proposal-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload their own attachment files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'proposal-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own attachment files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'proposal-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,56 @@
+-- Trilha de auditoria de proposals: uma linha por INSERT/UPDATE/DELETE com a linha antiga e a nova
+-- em JSON. O trigger é por linha, então as ações em massa (UPDATE ... WHERE id IN (...), usado em
+-- updateProposalsStatus) geram uma entrada para cada proposta afetada.
+CREATE TABLE public.proposal_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id UUID NOT NULL, -- Sem FK: a auditoria continua depois que a proposta é excluída
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- Dono da proposta (RLS)
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data JSONB, -- NULL no INSERT
+  new_data JSONB, -- NULL no DELETE
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.proposal_audit ENABLE ROW LEVEL SECURITY;
+
+-- Só leitura pelo app: as linhas vêm do trigger e não podem ser alteradas
+CREATE POLICY "Users can view their own proposal audit"
+  ON public.proposal_audit
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.audit_proposal_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+BEGIN
+  -- Ignora updates que só mexem nas colunas de controle (ex.: UPDATE sem mudança real)
+  IF TG_OP = 'UPDATE'
+    AND old_row - 'updated_at' - 'updated_by' = new_row - 'updated_at' - 'updated_by' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.proposal_audit (proposal_id, user_id, changed_by, operation, old_data, new_data)
+  VALUES (
+    COALESCE(NEW.id, OLD.id),
+    COALESCE(NEW.user_id, OLD.user_id),
+    COALESCE(auth.uid(), NEW.updated_by, OLD.updated_by),
+    TG_OP,
+    old_row,
+    new_row
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_proposal_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_proposal_change();
+
+CREATE INDEX idx_proposal_audit_proposal_id ON public.proposal_audit(proposal_id, changed_at DESC);
+CREATE INDEX idx_proposal_audit_user_changed_at ON public.proposal_audit(user_id, changed_at DESC);
@@ -0,0 +1,105 @@
+-- Lixeira: excluir uma proposta só marca deleted_at; a exclusão definitiva é manual (purge)
+-- ou automática depois do prazo configurado pelo usuário.
+ALTER TABLE public.proposals ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_proposals_deleted_at ON public.proposals(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Propostas na lixeira somem de todas as consultas do app (lista, quadro, totais, gráficos),
+-- inclusive das funções SECURITY INVOKER, sem precisar filtrar em cada uma
+DROP POLICY "Users can view their own proposals" ON public.proposals;
+
+CREATE POLICY "Users can view their own proposals"
+  ON public.proposals
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id AND deleted_at IS NULL);
+
+-- Como a linha deixa de ser visível, mover para a lixeira, restaurar e excluir de vez passam por
+-- funções SECURITY DEFINER, que conferem o dono explicitamente
+CREATE OR REPLACE FUNCTION public.soft_delete_proposals(ids UUID[])
+RETURNS VOID AS $$
+  UPDATE public.proposals
+  SET deleted_at = now()
+  WHERE id = ANY(ids) AND user_id = auth.uid() AND deleted_at IS NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.restore_proposals(ids UUID[])
+RETURNS VOID AS $$
+  UPDATE public.proposals
+  SET deleted_at = NULL
+  WHERE id = ANY(ids) AND user_id = auth.uid() AND deleted_at IS NOT NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Devolve os caminhos dos anexos das propostas excluídas, para o app apagar os arquivos do Storage
+-- (as linhas de proposal_attachments saem pelo ON DELETE CASCADE)
+CREATE OR REPLACE FUNCTION public.purge_proposals(ids UUID[])
+RETURNS SETOF TEXT AS $$
+  WITH purged AS (
+    DELETE FROM public.proposals
+    WHERE id = ANY(ids) AND user_id = auth.uid() AND deleted_at IS NOT NULL
+    RETURNING id
+  )
+  SELECT a.storage_path
+  FROM public.proposal_attachments a
+  JOIN purged ON purged.id = a.proposal_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_deleted_proposals()
+RETURNS SETOF public.proposals AS $$
+  SELECT *
+  FROM public.proposals
+  WHERE user_id = auth.uid() AND deleted_at IS NOT NULL
+  ORDER BY deleted_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Preferências do usuário (uma linha por usuário, criada no primeiro salvamento)
+CREATE TABLE public.user_settings (
+  user_id UUID PRIMARY KEY DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  trash_retention_days INTEGER NOT NULL DEFAULT 30 CHECK (trash_retention_days BETWEEN 1 AND 365),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own settings"
+  ON public.user_settings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own settings"
+  ON public.user_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+  ON public.user_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_settings_updated_at
+  BEFORE UPDATE ON public.user_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Limpeza automática: roda sem usuário logado (pg_cron), então não pode ser chamada pelo app.
+-- Os arquivos de anexos dessas propostas continuam no bucket; só a limpeza manual os apaga.
+CREATE OR REPLACE FUNCTION public.purge_expired_proposals()
+RETURNS VOID AS $$
+  DELETE FROM public.proposals p
+  WHERE p.deleted_at IS NOT NULL
+    AND p.deleted_at < now() - make_interval(days => COALESCE(
+      (SELECT s.trash_retention_days FROM public.user_settings s WHERE s.user_id = p.user_id),
+      30
+    ));
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_proposals() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('purge-expired-proposals', '0 3 * * *', 'SELECT public.purge_expired_proposals()');
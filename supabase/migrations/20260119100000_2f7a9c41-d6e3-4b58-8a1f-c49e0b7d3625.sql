@@ -0,0 +1,252 @@
+-- Organizações: as propostas passam a pertencer a uma organização e todos os membros as enxergam.
+-- Cada usuário trabalha em uma organização por vez (a "atual", escolhida no seletor do cabeçalho);
+-- o RLS de SELECT filtra por ela, então consultas e funções SECURITY INVOKER não mudam.
+CREATE TABLE public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.memberships (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT memberships_organization_user_key UNIQUE (organization_id, user_id)
+);
+
+CREATE INDEX idx_memberships_user_id ON public.memberships(user_id);
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- SECURITY DEFINER: as políticas de memberships consultam a própria tabela sem cair em recursão
+CREATE OR REPLACE FUNCTION public.is_org_member(org UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.memberships
+    WHERE organization_id = org AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Organização escolhida no seletor (user_settings) ou, sem escolha válida, a primeira em que entrou
+ALTER TABLE public.user_settings
+ADD COLUMN current_organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.current_organization_id()
+RETURNS UUID AS $$
+  SELECT COALESCE(
+    (
+      SELECT s.current_organization_id
+      FROM public.user_settings s
+      JOIN public.memberships m ON m.organization_id = s.current_organization_id AND m.user_id = s.user_id
+      WHERE s.user_id = auth.uid()
+    ),
+    (
+      SELECT organization_id FROM public.memberships
+      WHERE user_id = auth.uid()
+      ORDER BY created_at, organization_id
+      LIMIT 1
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enable RLS
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.memberships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations"
+  ON public.organizations
+  FOR SELECT
+  TO authenticated
+  USING (public.is_org_member(id));
+
+CREATE POLICY "Members can view memberships of their organizations"
+  ON public.memberships
+  FOR SELECT
+  TO authenticated
+  USING (public.is_org_member(organization_id));
+
+-- Cada usuário existente ganha uma organização própria com as propostas que já tinha
+WITH new_organizations AS (
+  INSERT INTO public.organizations (name, created_by)
+  SELECT 'Organização de ' || COALESCE(u.email, 'usuário'), u.id
+  FROM auth.users u
+  RETURNING id, created_by
+)
+INSERT INTO public.memberships (organization_id, user_id)
+SELECT id, created_by FROM new_organizations;
+
+-- Novos cadastros também
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_organization_id UUID;
+BEGIN
+  INSERT INTO public.organizations (name, created_by)
+  VALUES ('Organização de ' || COALESCE(NEW.email, 'usuário'), NEW.id)
+  RETURNING id INTO new_organization_id;
+
+  INSERT INTO public.memberships (organization_id, user_id)
+  VALUES (new_organization_id, NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user();
+
+-- Propostas: novas entram na organização atual de quem cria
+ALTER TABLE public.proposals
+ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+UPDATE public.proposals p
+SET organization_id = m.organization_id
+FROM public.memberships m
+WHERE m.user_id = p.user_id;
+
+ALTER TABLE public.proposals
+ALTER COLUMN organization_id SET NOT NULL,
+ALTER COLUMN organization_id SET DEFAULT public.current_organization_id();
+
+CREATE INDEX idx_proposals_organization_id ON public.proposals(organization_id);
+
+DROP POLICY "Users can view their own proposals" ON public.proposals;
+DROP POLICY "Users can create their own proposals" ON public.proposals;
+
+-- Leitura para todos os membros; alterar e excluir continuam só com o dono
+CREATE POLICY "Members can view their organization proposals"
+  ON public.proposals
+  FOR SELECT
+  TO authenticated
+  USING (organization_id = (SELECT public.current_organization_id()) AND deleted_at IS NULL);
+
+CREATE POLICY "Users can create their own proposals"
+  ON public.proposals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.is_org_member(organization_id));
+
+-- A lixeira mostra só as propostas da organização atual
+CREATE OR REPLACE FUNCTION public.get_deleted_proposals()
+RETURNS SETOF public.proposals AS $$
+  SELECT *
+  FROM public.proposals
+  WHERE user_id = auth.uid()
+    AND organization_id = public.current_organization_id()
+    AND deleted_at IS NOT NULL
+  ORDER BY deleted_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Tabelas filhas: além do dono, quem enxerga a proposta (mesma organização) vê os registros dela
+DROP POLICY "Users can view their own follow-ups" ON public.proposal_follow_ups;
+
+CREATE POLICY "Members can view follow-ups of visible proposals"
+  ON public.proposal_follow_ups
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM public.proposals p WHERE p.id = proposal_id)
+  );
+
+DROP POLICY "Users can view their own status changes" ON public.proposal_status_changes;
+
+CREATE POLICY "Members can view status changes of visible proposals"
+  ON public.proposal_status_changes
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM public.proposals p WHERE p.id = proposal_id)
+  );
+
+DROP POLICY "Users can view their own attachments" ON public.proposal_attachments;
+
+CREATE POLICY "Members can view attachments of visible proposals"
+  ON public.proposal_attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM public.proposals p WHERE p.id = proposal_id)
+  );
+
+DROP POLICY "Users can view their own attachment files" ON storage.objects;
+
+CREATE POLICY "Members can view attachment files of visible proposals"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'proposal-attachments'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR EXISTS (SELECT 1 FROM public.proposal_attachments a WHERE a.storage_path = name)
+    )
+  );
+
+-- Clientes ligados a propostas visíveis (para abrir a página do cliente de um colega)
+DROP POLICY "Users can view their own clients" ON public.clients;
+
+CREATE POLICY "Members can view clients of visible proposals"
+  ON public.clients
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM public.proposals p WHERE p.client_id = clients.id)
+  );
+
+-- Auditoria: guarda a organização para continuar visível depois que a proposta é excluída
+ALTER TABLE public.proposal_audit
+ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+UPDATE public.proposal_audit a
+SET organization_id = m.organization_id
+FROM public.memberships m
+WHERE m.user_id = a.user_id;
+
+ALTER TABLE public.proposal_audit ALTER COLUMN organization_id SET NOT NULL;
+
+CREATE INDEX idx_proposal_audit_organization_changed_at ON public.proposal_audit(organization_id, changed_at DESC);
+
+DROP POLICY "Users can view their own proposal audit" ON public.proposal_audit;
+
+CREATE POLICY "Members can view their organization proposal audit"
+  ON public.proposal_audit
+  FOR SELECT
+  TO authenticated
+  USING (organization_id = (SELECT public.current_organization_id()));
+
+CREATE OR REPLACE FUNCTION public.audit_proposal_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+BEGIN
+  -- Ignora updates que só mexem nas colunas de controle (ex.: UPDATE sem mudança real)
+  IF TG_OP = 'UPDATE'
+    AND old_row - 'updated_at' - 'updated_by' = new_row - 'updated_at' - 'updated_by' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.proposal_audit (proposal_id, user_id, organization_id, changed_by, operation, old_data, new_data)
+  VALUES (
+    COALESCE(NEW.id, OLD.id),
+    COALESCE(NEW.user_id, OLD.user_id),
+    COALESCE(NEW.organization_id, OLD.organization_id),
+    COALESCE(auth.uid(), NEW.updated_by, OLD.updated_by),
+    TG_OP,
+    old_row,
+    new_row
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,163 @@
+-- Papéis dentro da organização: admin faz tudo, seller (vendedor) edita as próprias propostas
+-- e viewer (leitor) só consulta
+CREATE TYPE public.membership_role AS ENUM ('admin', 'seller', 'viewer');
+
+ALTER TABLE public.memberships
+ADD COLUMN role membership_role NOT NULL DEFAULT 'seller';
+
+-- Até aqui toda organização era pessoal: o criador vira admin
+UPDATE public.memberships m
+SET role = 'admin'
+FROM public.organizations o
+WHERE o.id = m.organization_id AND o.created_by = m.user_id;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_organization_id UUID;
+BEGIN
+  INSERT INTO public.organizations (name, created_by)
+  VALUES ('Organização de ' || COALESCE(NEW.email, 'usuário'), NEW.id)
+  RETURNING id INTO new_organization_id;
+
+  INSERT INTO public.memberships (organization_id, user_id, role)
+  VALUES (new_organization_id, NEW.id, 'admin');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Papel do usuário logado numa organização (NULL = não é membro)
+CREATE OR REPLACE FUNCTION public.org_role(org UUID)
+RETURNS membership_role AS $$
+  SELECT role FROM public.memberships
+  WHERE organization_id = org AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.current_organization_role()
+RETURNS membership_role AS $$
+  SELECT public.org_role(public.current_organization_id());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Regra única de edição, usada pelas políticas e pelas funções da lixeira
+CREATE OR REPLACE FUNCTION public.can_edit_proposal(organization UUID, owner UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    public.org_role(organization) = 'admin'
+    OR (public.org_role(organization) = 'seller' AND owner = auth.uid()),
+    false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Propostas
+DROP POLICY "Users can create their own proposals" ON public.proposals;
+DROP POLICY "Users can update their own proposals" ON public.proposals;
+DROP POLICY "Users can delete their own proposals" ON public.proposals;
+
+CREATE POLICY "Sellers and admins can create proposals"
+  ON public.proposals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.org_role(organization_id) IN ('admin', 'seller'));
+
+CREATE POLICY "Editors can update proposals"
+  ON public.proposals
+  FOR UPDATE
+  TO authenticated
+  USING (public.can_edit_proposal(organization_id, user_id))
+  WITH CHECK (public.can_edit_proposal(organization_id, user_id));
+
+CREATE POLICY "Editors can delete proposals"
+  ON public.proposals
+  FOR DELETE
+  TO authenticated
+  USING (public.can_edit_proposal(organization_id, user_id));
+
+-- Lixeira: mesma regra de edição, na organização atual
+CREATE OR REPLACE FUNCTION public.soft_delete_proposals(ids UUID[])
+RETURNS VOID AS $$
+  UPDATE public.proposals
+  SET deleted_at = now()
+  WHERE id = ANY(ids)
+    AND organization_id = public.current_organization_id()
+    AND public.can_edit_proposal(organization_id, user_id)
+    AND deleted_at IS NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.restore_proposals(ids UUID[])
+RETURNS VOID AS $$
+  UPDATE public.proposals
+  SET deleted_at = NULL
+  WHERE id = ANY(ids)
+    AND organization_id = public.current_organization_id()
+    AND public.can_edit_proposal(organization_id, user_id)
+    AND deleted_at IS NOT NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.purge_proposals(ids UUID[])
+RETURNS SETOF TEXT AS $$
+  WITH purged AS (
+    DELETE FROM public.proposals
+    WHERE id = ANY(ids)
+      AND organization_id = public.current_organization_id()
+      AND public.can_edit_proposal(organization_id, user_id)
+      AND deleted_at IS NOT NULL
+    RETURNING id
+  )
+  SELECT a.storage_path
+  FROM public.proposal_attachments a
+  JOIN purged ON purged.id = a.proposal_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_deleted_proposals()
+RETURNS SETOF public.proposals AS $$
+  SELECT *
+  FROM public.proposals
+  WHERE organization_id = public.current_organization_id()
+    AND public.can_edit_proposal(organization_id, user_id)
+    AND deleted_at IS NOT NULL
+  ORDER BY deleted_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Follow-ups e anexos novos só em propostas que o usuário pode editar
+DROP POLICY "Users can create their own follow-ups" ON public.proposal_follow_ups;
+
+CREATE POLICY "Editors can create follow-ups"
+  ON public.proposal_follow_ups
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.proposals p
+      WHERE p.id = proposal_id AND public.can_edit_proposal(p.organization_id, p.user_id)
+    )
+  );
+
+DROP POLICY "Users can create their own attachments" ON public.proposal_attachments;
+
+CREATE POLICY "Editors can create attachments"
+  ON public.proposal_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.proposals p
+      WHERE p.id = proposal_id AND public.can_edit_proposal(p.organization_id, p.user_id)
+    )
+  );
+
+-- Auditoria completa da organização só para admins; os demais veem a das propostas visíveis
+DROP POLICY "Members can view their organization proposal audit" ON public.proposal_audit;
+
+CREATE POLICY "Admins can view their organization proposal audit"
+  ON public.proposal_audit
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT public.current_organization_id())
+    AND (
+      (SELECT public.current_organization_role()) = 'admin'
+      OR EXISTS (SELECT 1 FROM public.proposals p WHERE p.id = proposal_id)
+    )
+  );
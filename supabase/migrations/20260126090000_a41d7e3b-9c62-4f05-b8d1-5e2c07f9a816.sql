@@ -0,0 +1,155 @@
+-- Responsável (vendedor) de cada proposta. Quem cria continua em user_id; a partir daqui a regra
+-- "vendedor edita as próprias propostas" vale para as propostas de que ele é responsável.
+ALTER TABLE public.proposals
+ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+UPDATE public.proposals SET owner_id = user_id;
+
+CREATE INDEX idx_proposals_owner_id ON public.proposals(organization_id, owner_id);
+
+-- O responsável precisa ser membro da organização da proposta (NULL = sem responsável)
+CREATE OR REPLACE FUNCTION public.is_valid_owner(organization UUID, owner UUID)
+RETURNS BOOLEAN AS $$
+  SELECT owner IS NULL OR EXISTS (
+    SELECT 1 FROM public.memberships
+    WHERE organization_id = organization AND user_id = owner
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Vendedor só cria propostas em que ele mesmo é o responsável; admin escolhe qualquer membro
+DROP POLICY "Sellers and admins can create proposals" ON public.proposals;
+DROP POLICY "Editors can update proposals" ON public.proposals;
+DROP POLICY "Editors can delete proposals" ON public.proposals;
+
+CREATE POLICY "Sellers and admins can create proposals"
+  ON public.proposals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.can_edit_proposal(organization_id, owner_id)
+    AND public.is_valid_owner(organization_id, owner_id)
+  );
+
+CREATE POLICY "Editors can update proposals"
+  ON public.proposals
+  FOR UPDATE
+  TO authenticated
+  USING (public.can_edit_proposal(organization_id, owner_id))
+  WITH CHECK (
+    public.can_edit_proposal(organization_id, owner_id)
+    AND public.is_valid_owner(organization_id, owner_id)
+  );
+
+CREATE POLICY "Editors can delete proposals"
+  ON public.proposals
+  FOR DELETE
+  TO authenticated
+  USING (public.can_edit_proposal(organization_id, owner_id));
+
+CREATE OR REPLACE FUNCTION public.soft_delete_proposals(ids UUID[])
+RETURNS VOID AS $$
+  UPDATE public.proposals
+  SET deleted_at = now()
+  WHERE id = ANY(ids)
+    AND organization_id = public.current_organization_id()
+    AND public.can_edit_proposal(organization_id, owner_id)
+    AND deleted_at IS NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.restore_proposals(ids UUID[])
+RETURNS VOID AS $$
+  UPDATE public.proposals
+  SET deleted_at = NULL
+  WHERE id = ANY(ids)
+    AND organization_id = public.current_organization_id()
+    AND public.can_edit_proposal(organization_id, owner_id)
+    AND deleted_at IS NOT NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.purge_proposals(ids UUID[])
+RETURNS SETOF TEXT AS $$
+  WITH purged AS (
+    DELETE FROM public.proposals
+    WHERE id = ANY(ids)
+      AND organization_id = public.current_organization_id()
+      AND public.can_edit_proposal(organization_id, owner_id)
+      AND deleted_at IS NOT NULL
+    RETURNING id
+  )
+  SELECT a.storage_path
+  FROM public.proposal_attachments a
+  JOIN purged ON purged.id = a.proposal_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_deleted_proposals()
+RETURNS SETOF public.proposals AS $$
+  SELECT *
+  FROM public.proposals
+  WHERE organization_id = public.current_organization_id()
+    AND public.can_edit_proposal(organization_id, owner_id)
+    AND deleted_at IS NOT NULL
+  ORDER BY deleted_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY "Editors can create follow-ups" ON public.proposal_follow_ups;
+
+CREATE POLICY "Editors can create follow-ups"
+  ON public.proposal_follow_ups
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.proposals p
+      WHERE p.id = proposal_id AND public.can_edit_proposal(p.organization_id, p.owner_id)
+    )
+  );
+
+DROP POLICY "Editors can create attachments" ON public.proposal_attachments;
+
+CREATE POLICY "Editors can create attachments"
+  ON public.proposal_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.proposals p
+      WHERE p.id = proposal_id AND public.can_edit_proposal(p.organization_id, p.owner_id)
+    )
+  );
+
+-- Membros da organização atual com nome para exibição (auth.users não é acessível pelo app)
+CREATE OR REPLACE FUNCTION public.get_organization_members()
+RETURNS TABLE (user_id UUID, name TEXT, email TEXT, role membership_role) AS $$
+  SELECT
+    m.user_id,
+    COALESCE(NULLIF(trim(u.raw_user_meta_data->>'full_name'), ''), u.email, 'Usuário') AS name,
+    u.email,
+    m.role
+  FROM public.memberships m
+  JOIN auth.users u ON u.id = m.user_id
+  WHERE m.organization_id = public.current_organization_id()
+  ORDER BY name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Quantidade e valor por responsável e status; mesmos filtros de período e canal dos totais
+CREATE OR REPLACE FUNCTION public.get_owner_totals(
+  date_start TIMESTAMPTZ DEFAULT NULL,
+  date_end TIMESTAMPTZ DEFAULT NULL,
+  channel proposal_channel DEFAULT NULL
+)
+RETURNS TABLE (owner_id UUID, status proposal_status, count BIGINT, total_value NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT p.owner_id, p.status, count(*), coalesce(sum(p.value), 0)
+  FROM public.proposals p
+  WHERE (date_start IS NULL OR p.sent_date >= date_start)
+    AND (date_end IS NULL OR p.sent_date <= date_end)
+    AND (channel IS NULL OR p.sent_via = channel)
+  GROUP BY p.owner_id, p.status;
+$$;
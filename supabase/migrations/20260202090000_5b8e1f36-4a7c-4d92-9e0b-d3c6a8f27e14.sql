@@ -0,0 +1,129 @@
+-- Verificação em duas etapas (TOTP do Supabase Auth). A organização pode exigir MFA de todos os
+-- membros; quem ativou MFA por conta própria também só vê os dados depois de digitar o código.
+ALTER TABLE public.organizations
+ADD COLUMN require_mfa BOOLEAN NOT NULL DEFAULT false;
+
+-- Sessão no nível exigido: aal2 (senha + código) ou, sem MFA obrigatório nem fator ativado, aal1
+CREATE OR REPLACE FUNCTION public.mfa_satisfied(organization UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2'
+    OR (
+      NOT COALESCE((SELECT require_mfa FROM public.organizations WHERE id = organization), false)
+      AND NOT EXISTS (
+        SELECT 1 FROM auth.mfa_factors
+        WHERE user_id = auth.uid() AND status = 'verified'
+      )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Só admins mudam a organização; para ligar o MFA obrigatório o próprio admin precisa estar em aal2
+CREATE POLICY "Admins can update their organizations"
+  ON public.organizations
+  FOR UPDATE
+  TO authenticated
+  USING (public.org_role(id) = 'admin' AND public.mfa_satisfied(id))
+  WITH CHECK (
+    public.org_role(id) = 'admin'
+    AND (NOT require_mfa OR COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2')
+  );
+
+-- Propostas: leitura e edição passam a depender do nível da sessão
+DROP POLICY "Members can view their organization proposals" ON public.proposals;
+
+CREATE POLICY "Members can view their organization proposals"
+  ON public.proposals
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT public.current_organization_id())
+    AND deleted_at IS NULL
+    AND (SELECT public.mfa_satisfied(public.current_organization_id()))
+  );
+
+-- Usada pelas políticas de escrita, lixeira, follow-ups e anexos
+CREATE OR REPLACE FUNCTION public.can_edit_proposal(organization UUID, owner UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    public.mfa_satisfied(organization)
+    AND (
+      public.org_role(organization) = 'admin'
+      OR (public.org_role(organization) = 'seller' AND owner = auth.uid())
+    ),
+    false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Tabelas filhas: os registros do próprio usuário também ficam atrás do MFA
+DROP POLICY "Members can view follow-ups of visible proposals" ON public.proposal_follow_ups;
+
+CREATE POLICY "Members can view follow-ups of visible proposals"
+  ON public.proposal_follow_ups
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT public.mfa_satisfied(public.current_organization_id()))
+    AND (auth.uid() = user_id OR EXISTS (SELECT 1 FROM public.proposals p WHERE p.id = proposal_id))
+  );
+
+DROP POLICY "Members can view status changes of visible proposals" ON public.proposal_status_changes;
+
+CREATE POLICY "Members can view status changes of visible proposals"
+  ON public.proposal_status_changes
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT public.mfa_satisfied(public.current_organization_id()))
+    AND (auth.uid() = user_id OR EXISTS (SELECT 1 FROM public.proposals p WHERE p.id = proposal_id))
+  );
+
+DROP POLICY "Members can view attachments of visible proposals" ON public.proposal_attachments;
+
+CREATE POLICY "Members can view attachments of visible proposals"
+  ON public.proposal_attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT public.mfa_satisfied(public.current_organization_id()))
+    AND (auth.uid() = user_id OR EXISTS (SELECT 1 FROM public.proposals p WHERE p.id = proposal_id))
+  );
+
+DROP POLICY "Members can view attachment files of visible proposals" ON storage.objects;
+
+CREATE POLICY "Members can view attachment files of visible proposals"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'proposal-attachments'
+    AND (SELECT public.mfa_satisfied(public.current_organization_id()))
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR EXISTS (SELECT 1 FROM public.proposal_attachments a WHERE a.storage_path = name)
+    )
+  );
+
+DROP POLICY "Members can view clients of visible proposals" ON public.clients;
+
+CREATE POLICY "Members can view clients of visible proposals"
+  ON public.clients
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT public.mfa_satisfied(public.current_organization_id()))
+    AND (auth.uid() = user_id OR EXISTS (SELECT 1 FROM public.proposals p WHERE p.client_id = clients.id))
+  );
+
+DROP POLICY "Admins can view their organization proposal audit" ON public.proposal_audit;
+
+CREATE POLICY "Admins can view their organization proposal audit"
+  ON public.proposal_audit
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT public.current_organization_id())
+    AND (SELECT public.mfa_satisfied(public.current_organization_id()))
+    AND (
+      (SELECT public.current_organization_role()) = 'admin'
+      OR EXISTS (SELECT 1 FROM public.proposals p WHERE p.id = proposal_id)
+    )
+  );
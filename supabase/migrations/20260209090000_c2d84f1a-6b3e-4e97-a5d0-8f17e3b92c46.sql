@@ -0,0 +1,80 @@
+-- Gestão de membros: só admins da organização atual (com MFA, se exigido) adicionam, mudam o papel
+-- ou removem membros. SECURITY DEFINER porque memberships não tem políticas de escrita e o e-mail
+-- está em auth.users.
+
+-- Checagem comum às funções abaixo; devolve a organização atual
+CREATE OR REPLACE FUNCTION public.require_organization_admin()
+RETURNS UUID AS $$
+DECLARE
+  org UUID := public.current_organization_id();
+BEGIN
+  IF org IS NULL OR public.org_role(org) IS DISTINCT FROM 'admin' OR NOT public.mfa_satisfied(org) THEN
+    RAISE EXCEPTION 'Apenas administradores podem gerenciar os membros' USING ERRCODE = '42501';
+  END IF;
+  RETURN org;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- A organização nunca fica sem admin
+CREATE OR REPLACE FUNCTION public.ensure_other_admin(org UUID, member UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.memberships
+    WHERE organization_id = org AND role = 'admin' AND user_id <> member
+  ) THEN
+    RAISE EXCEPTION 'A organização precisa de pelo menos um administrador' USING ERRCODE = '23514';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Adiciona quem já tem conta; false = nenhuma conta com esse e-mail (o app oferece o convite)
+CREATE OR REPLACE FUNCTION public.add_organization_member(member_email TEXT, member_role membership_role)
+RETURNS BOOLEAN AS $$
+DECLARE
+  org UUID := public.require_organization_admin();
+  member UUID;
+BEGIN
+  SELECT id INTO member FROM auth.users WHERE lower(email) = lower(trim(member_email));
+  IF member IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.memberships (organization_id, user_id, role)
+  VALUES (org, member, member_role)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_organization_member_role(member UUID, member_role membership_role)
+RETURNS VOID AS $$
+DECLARE
+  org UUID := public.require_organization_admin();
+BEGIN
+  IF member_role <> 'admin' THEN
+    PERFORM public.ensure_other_admin(org, member);
+  END IF;
+
+  UPDATE public.memberships
+  SET role = member_role
+  WHERE organization_id = org AND user_id = member;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As propostas do membro removido ficam sem responsável (is_valid_owner exige um membro)
+CREATE OR REPLACE FUNCTION public.remove_organization_member(member UUID)
+RETURNS VOID AS $$
+DECLARE
+  org UUID := public.require_organization_admin();
+BEGIN
+  PERFORM public.ensure_other_admin(org, member);
+
+  DELETE FROM public.memberships
+  WHERE organization_id = org AND user_id = member;
+
+  UPDATE public.proposals
+  SET owner_id = NULL
+  WHERE organization_id = org AND owner_id = member;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,58 @@
+-- Convites: o admin convida um e-mail sem conta (edge function invite-member) e a conta criada pelo
+-- convite entra direto na organização com o papel escolhido, em vez de ganhar uma organização própria.
+-- Os metadados do usuário não servem de prova (qualquer cadastro pode enviá-los): vale esta tabela.
+CREATE TABLE public.organization_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role membership_role NOT NULL DEFAULT 'seller',
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT organization_invites_organization_email_key UNIQUE (organization_id, email)
+);
+
+CREATE INDEX idx_organization_invites_email ON public.organization_invites(email);
+
+-- Sem políticas: só as funções abaixo (SECURITY DEFINER) leem e gravam
+ALTER TABLE public.organization_invites ENABLE ROW LEVEL SECURITY;
+
+-- Chamada pela edge function com o JWT do admin, antes de enviar o e-mail de convite
+CREATE OR REPLACE FUNCTION public.create_organization_invite(member_email TEXT, member_role membership_role)
+RETURNS VOID AS $$
+DECLARE
+  org UUID := public.require_organization_admin();
+BEGIN
+  INSERT INTO public.organization_invites (organization_id, email, role, invited_by)
+  VALUES (org, lower(trim(member_email)), member_role, auth.uid())
+  ON CONFLICT (organization_id, email) DO UPDATE
+  SET role = EXCLUDED.role, invited_by = EXCLUDED.invited_by, created_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Conta nova: entra nas organizações que a convidaram; sem convite, ganha uma organização própria
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_organization_id UUID;
+BEGIN
+  WITH accepted AS (
+    DELETE FROM public.organization_invites
+    WHERE email = lower(NEW.email)
+    RETURNING organization_id, role
+  )
+  INSERT INTO public.memberships (organization_id, user_id, role)
+  SELECT organization_id, NEW.id, role FROM accepted;
+
+  IF FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES ('Organização de ' || COALESCE(NEW.email, 'usuário'), NEW.id)
+  RETURNING id INTO new_organization_id;
+
+  INSERT INTO public.memberships (organization_id, user_id, role)
+  VALUES (new_organization_id, NEW.id, 'admin');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,44 @@
+-- Arquivos de anexos a apagar do Storage. Todo registro de proposal_attachments que sai (exclusão do
+-- anexo, limpeza manual ou automática da lixeira) deixa o caminho aqui; a edge function
+-- cleanup-attachment-files apaga os arquivos pela API do Storage com a chave de serviço.
+CREATE TABLE public.attachment_files_to_delete (
+  storage_path TEXT PRIMARY KEY,
+  queued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Sem políticas: só a chave de serviço (edge function) e o trigger abaixo mexem na fila
+ALTER TABLE public.attachment_files_to_delete ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.queue_attachment_file_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.attachment_files_to_delete (storage_path)
+  VALUES (OLD.storage_path)
+  ON CONFLICT (storage_path) DO NOTHING;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_attachment_file_deletion
+  AFTER DELETE ON public.proposal_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_attachment_file_deletion();
+
+-- A limpeza automática continua às 3h; 15 minutos depois a edge function apaga os arquivos.
+-- Precisa dos segredos project_url e service_role_key no Vault do projeto.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'cleanup-attachment-files',
+  '15 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/cleanup-attachment-files',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    )
+  );
+  $$
+);
@@ -0,0 +1,81 @@
+-- Tabelas filhas: alterar e excluir follow-ups e anexos segue a regra de edição da proposta
+-- (admin ou vendedor responsável, com MFA), não mais quem criou o registro.
+DROP POLICY "Users can update their own follow-ups" ON public.proposal_follow_ups;
+DROP POLICY "Users can delete their own follow-ups" ON public.proposal_follow_ups;
+
+CREATE POLICY "Editors can update follow-ups"
+  ON public.proposal_follow_ups
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.proposals p
+      WHERE p.id = proposal_id AND public.can_edit_proposal(p.organization_id, p.owner_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.proposals p
+      WHERE p.id = proposal_id AND public.can_edit_proposal(p.organization_id, p.owner_id)
+    )
+  );
+
+CREATE POLICY "Editors can delete follow-ups"
+  ON public.proposal_follow_ups
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.proposals p
+      WHERE p.id = proposal_id AND public.can_edit_proposal(p.organization_id, p.owner_id)
+    )
+  );
+
+DROP POLICY "Users can delete their own attachments" ON public.proposal_attachments;
+
+CREATE POLICY "Editors can delete attachments"
+  ON public.proposal_attachments
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.proposals p
+      WHERE p.id = proposal_id AND public.can_edit_proposal(p.organization_id, p.owner_id)
+    )
+  );
+
+-- Arquivo no bucket: vale a proposta do anexo. Sem registro (upload cujo insert falhou), só quem
+-- subiu o arquivo apaga. SECURITY DEFINER: enxerga o anexo mesmo com a proposta fora do RLS.
+CREATE OR REPLACE FUNCTION public.can_delete_attachment_file(path TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM public.proposal_attachments WHERE storage_path = path) THEN EXISTS (
+      SELECT 1
+      FROM public.proposal_attachments a
+      JOIN public.proposals p ON p.id = a.proposal_id
+      WHERE a.storage_path = path AND public.can_edit_proposal(p.organization_id, p.owner_id)
+    )
+    ELSE (storage.foldername(path))[1] = auth.uid()::text
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY "Users can delete their own attachment files" ON storage.objects;
+
+CREATE POLICY "Editors can delete attachment files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'proposal-attachments' AND public.can_delete_attachment_file(name));
+
+-- Limpeza manual: os arquivos saem pela fila attachment_files_to_delete (o app chama a edge function
+-- cleanup-attachment-files logo depois), já que o admin não pode apagar arquivos de outra pasta
+DROP FUNCTION public.purge_proposals(UUID[]);
+
+CREATE OR REPLACE FUNCTION public.purge_proposals(ids UUID[])
+RETURNS VOID AS $$
+  DELETE FROM public.proposals
+  WHERE id = ANY(ids)
+    AND organization_id = public.current_organization_id()
+    AND public.can_edit_proposal(organization_id, owner_id)
+    AND deleted_at IS NOT NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
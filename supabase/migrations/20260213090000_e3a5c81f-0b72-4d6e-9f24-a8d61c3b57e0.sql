@@ -0,0 +1,32 @@
+-- Lixeira em tempo real: ao ir para a lixeira a proposta deixa de passar no RLS de SELECT, então o
+-- Realtime não entrega o UPDATE às outras sessões. Um broadcast privado por organização avisa
+-- quando uma proposta entra ou sai da lixeira.
+CREATE OR REPLACE FUNCTION public.broadcast_proposal_trash()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object('id', NEW.id, 'deleted', NEW.deleted_at IS NOT NULL),
+    'trash',
+    'proposals:' || NEW.organization_id,
+    true
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER broadcast_proposal_trash
+  AFTER UPDATE OF deleted_at ON public.proposals
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS DISTINCT FROM NEW.deleted_at)
+  EXECUTE FUNCTION public.broadcast_proposal_trash();
+
+-- Só membros da organização atual (com MFA, se exigido) entram no canal
+CREATE POLICY "Members can receive their organization proposal broadcasts"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND realtime.topic() = 'proposals:' || (SELECT public.current_organization_id())
+    AND (SELECT public.mfa_satisfied(public.current_organization_id()))
+  );
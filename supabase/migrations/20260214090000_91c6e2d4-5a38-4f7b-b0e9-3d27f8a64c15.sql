@@ -0,0 +1,14 @@
+-- Membros (nomes e e-mails) ficam atrás do MFA, como as propostas
+CREATE OR REPLACE FUNCTION public.get_organization_members()
+RETURNS TABLE (user_id UUID, name TEXT, email TEXT, role membership_role) AS $$
+  SELECT
+    m.user_id,
+    COALESCE(NULLIF(trim(u.raw_user_meta_data->>'full_name'), ''), u.email, 'Usuário') AS name,
+    u.email,
+    m.role
+  FROM public.memberships m
+  JOIN auth.users u ON u.id = m.user_id
+  WHERE m.organization_id = public.current_organization_id()
+    AND public.mfa_satisfied(m.organization_id)
+  ORDER BY name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
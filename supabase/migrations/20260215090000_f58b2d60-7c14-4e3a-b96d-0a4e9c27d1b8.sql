@@ -0,0 +1,39 @@
+-- last_follow_up ficava com a data do follow-up excluído quando era o último do histórico (o
+-- COALESCE mantinha o valor antigo). A data informada sem histórico (cadastro ou importação) passa
+-- a ficar em uma coluna própria, usada quando a proposta fica sem follow-ups.
+ALTER TABLE public.proposals ADD COLUMN legacy_last_follow_up TIMESTAMP WITH TIME ZONE;
+
+-- Sem histórico, a data atual ainda é a informada; com histórico, a original se perdeu
+UPDATE public.proposals p
+SET legacy_last_follow_up = p.last_follow_up
+WHERE NOT EXISTS (SELECT 1 FROM public.proposal_follow_ups f WHERE f.proposal_id = p.id);
+
+CREATE OR REPLACE FUNCTION public.set_legacy_last_follow_up()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.legacy_last_follow_up := NEW.last_follow_up;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_legacy_last_follow_up
+  BEFORE INSERT ON public.proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_legacy_last_follow_up();
+
+-- Sem follow-ups: volta para a data informada ou, se ela se perdeu, para o envio da proposta
+CREATE OR REPLACE FUNCTION public.sync_proposal_last_follow_up()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_id UUID := COALESCE(NEW.proposal_id, OLD.proposal_id);
+BEGIN
+  UPDATE public.proposals
+  SET last_follow_up = COALESCE(
+    (SELECT max(contacted_at) FROM public.proposal_follow_ups WHERE proposal_id = target_id),
+    legacy_last_follow_up,
+    sent_date
+  )
+  WHERE id = target_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,30 @@
+-- Máquina de estados da proposta também no banco: o app já bloqueia as transições proibidas
+-- (src/lib/proposal-status.ts), mas um UPDATE direto pela API passava por cima. Mantenha as duas
+-- listas iguais.
+CREATE OR REPLACE FUNCTION public.check_proposal_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.status = ANY(
+    CASE OLD.status
+      WHEN 'draft' THEN ARRAY['sent', 'cancelled']
+      WHEN 'sent' THEN ARRAY['pending', 'negotiating', 'approved', 'rejected', 'expired', 'cancelled']
+      WHEN 'pending' THEN ARRAY['negotiating', 'approved', 'rejected', 'expired', 'cancelled']
+      WHEN 'negotiating' THEN ARRAY['pending', 'approved', 'rejected', 'expired', 'cancelled']
+      WHEN 'approved' THEN ARRAY['negotiating', 'cancelled']
+      WHEN 'rejected' THEN ARRAY['pending']
+      WHEN 'expired' THEN ARRAY['sent', 'pending']
+      WHEN 'cancelled' THEN ARRAY['draft']
+    END::public.proposal_status[]
+  ) THEN
+    RAISE EXCEPTION 'Não é possível mudar a proposta de % para %', OLD.status, NEW.status
+      USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_proposal_status_transition
+  BEFORE UPDATE OF status ON public.proposals
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.check_proposal_status_transition();
@@ -0,0 +1,9 @@
+-- A auditoria precisa sobreviver à exclusão do usuário: o dono da proposta vira NULL em vez de
+-- levar junto todo o histórico (a visibilidade já vem da organização, não mais de user_id)
+ALTER TABLE public.proposal_audit ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.proposal_audit DROP CONSTRAINT proposal_audit_user_id_fkey;
+
+ALTER TABLE public.proposal_audit
+  ADD CONSTRAINT proposal_audit_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
@@ -0,0 +1,108 @@
+-- Clientes passam a ser da organização, como as propostas: todos os membros enxergam o mesmo
+-- cadastro e o importador/seletor reaproveitam o cliente que um colega já cadastrou
+ALTER TABLE public.clients
+ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+-- Organização das propostas do cliente; sem propostas, a primeira organização de quem cadastrou
+UPDATE public.clients c
+SET organization_id = COALESCE(
+  (SELECT p.organization_id FROM public.proposals p WHERE p.client_id = c.id ORDER BY p.created_at LIMIT 1),
+  (
+    SELECT m.organization_id FROM public.memberships m
+    WHERE m.user_id = c.user_id
+    ORDER BY m.created_at, m.organization_id
+    LIMIT 1
+  )
+);
+
+-- Cliente usado em propostas de mais de uma organização (mesmo vendedor nas duas): cada outra
+-- organização ganha uma cópia do cadastro, e as propostas de lá passam a apontar para ela
+CREATE TEMP TABLE client_copies AS
+SELECT source_id, organization_id, gen_random_uuid() AS id
+FROM (
+  SELECT DISTINCT c.id AS source_id, p.organization_id
+  FROM public.clients c
+  JOIN public.proposals p ON p.client_id = c.id
+  WHERE p.organization_id <> c.organization_id
+) pairs;
+
+INSERT INTO public.clients (id, user_id, organization_id, name, cnpj, contacts, phone, email, created_at)
+SELECT cc.id, c.user_id, cc.organization_id, c.name, c.cnpj, c.contacts, c.phone, c.email, c.created_at
+FROM client_copies cc
+JOIN public.clients c ON c.id = cc.source_id;
+
+UPDATE public.proposals p
+SET client_id = cc.id
+FROM client_copies cc
+WHERE p.client_id = cc.source_id AND p.organization_id = cc.organization_id;
+
+DROP TABLE client_copies;
+
+-- O CNPJ passa a ser único na organização: cadastros repetidos por membros diferentes viram um só
+-- (fica o mais antigo)
+CREATE TEMP TABLE duplicate_clients AS
+SELECT id, keep_id
+FROM (
+  SELECT id, first_value(id) OVER (PARTITION BY organization_id, cnpj ORDER BY created_at, id) AS keep_id
+  FROM public.clients
+  WHERE cnpj IS NOT NULL
+) ranked
+WHERE id <> keep_id;
+
+UPDATE public.proposals p
+SET client_id = d.keep_id
+FROM duplicate_clients d
+WHERE p.client_id = d.id;
+
+DELETE FROM public.clients c
+USING duplicate_clients d
+WHERE c.id = d.id;
+
+DROP TABLE duplicate_clients;
+
+ALTER TABLE public.clients
+ALTER COLUMN organization_id SET NOT NULL,
+ALTER COLUMN organization_id SET DEFAULT public.current_organization_id();
+
+DROP INDEX public.idx_clients_user_cnpj;
+CREATE UNIQUE INDEX idx_clients_organization_cnpj ON public.clients(organization_id, cnpj) WHERE cnpj IS NOT NULL;
+CREATE INDEX idx_clients_organization_id ON public.clients(organization_id);
+
+-- Leitura para a organização atual; cadastrar é de quem cria propostas; alterar e excluir segue a
+-- regra das propostas (admin ou o vendedor que cadastrou)
+DROP POLICY "Members can view clients of visible proposals" ON public.clients;
+DROP POLICY "Users can create their own clients" ON public.clients;
+DROP POLICY "Users can update their own clients" ON public.clients;
+DROP POLICY "Users can delete their own clients" ON public.clients;
+
+CREATE POLICY "Members can view their organization clients"
+  ON public.clients
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT public.current_organization_id())
+    AND (SELECT public.mfa_satisfied(public.current_organization_id()))
+  );
+
+CREATE POLICY "Sellers and admins can create clients"
+  ON public.clients
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.org_role(organization_id) IN ('admin', 'seller')
+    AND public.mfa_satisfied(organization_id)
+  );
+
+CREATE POLICY "Editors can update clients"
+  ON public.clients
+  FOR UPDATE
+  TO authenticated
+  USING (public.can_edit_proposal(organization_id, user_id))
+  WITH CHECK (public.can_edit_proposal(organization_id, user_id));
+
+CREATE POLICY "Editors can delete clients"
+  ON public.clients
+  FOR DELETE
+  TO authenticated
+  USING (public.can_edit_proposal(organization_id, user_id));
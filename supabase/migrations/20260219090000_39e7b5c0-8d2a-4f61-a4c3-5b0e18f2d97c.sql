@@ -0,0 +1,42 @@
+-- Convites só valem com o e-mail confirmado: a conta criada pelo convite (ou um cadastro comum com
+-- o mesmo e-mail) nasce sem confirmação, e quem não controla a caixa de entrada não pode herdar o
+-- papel convidado. A mesma função roda ao criar a conta e quando o e-mail é confirmado.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_organization_id UUID;
+BEGIN
+  IF NEW.email_confirmed_at IS NOT NULL THEN
+    WITH accepted AS (
+      DELETE FROM public.organization_invites
+      WHERE email = lower(NEW.email)
+      RETURNING organization_id, role
+    )
+    INSERT INTO public.memberships (organization_id, user_id, role)
+    SELECT organization_id, NEW.id, role FROM accepted
+    ON CONFLICT (organization_id, user_id) DO NOTHING;
+  ELSIF EXISTS (SELECT 1 FROM public.organization_invites WHERE email = lower(NEW.email)) THEN
+    -- Convidado ainda sem confirmar: entra na organização ao confirmar, sem ganhar uma própria
+    RETURN NEW;
+  END IF;
+
+  -- Sem convite (nem associação de antes da confirmação): ganha uma organização própria
+  IF EXISTS (SELECT 1 FROM public.memberships WHERE user_id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES ('Organização de ' || COALESCE(NEW.email, 'usuário'), NEW.id)
+  RETURNING id INTO new_organization_id;
+
+  INSERT INTO public.memberships (organization_id, user_id, role)
+  VALUES (new_organization_id, NEW.id, 'admin');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_confirmed
+  AFTER UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email_confirmed_at IS NULL AND NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION public.handle_new_user();
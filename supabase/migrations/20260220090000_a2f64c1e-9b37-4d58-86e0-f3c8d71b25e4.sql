@@ -0,0 +1,15 @@
+-- Follow-up movido para outra proposta: a de origem também precisa recalcular a data, senão fica
+-- com a do follow-up que saiu dela
+CREATE OR REPLACE FUNCTION public.sync_proposal_last_follow_up()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.proposals p
+  SET last_follow_up = COALESCE(
+    (SELECT max(contacted_at) FROM public.proposal_follow_ups WHERE proposal_id = p.id),
+    p.legacy_last_follow_up,
+    p.sent_date
+  )
+  WHERE p.id IN (NEW.proposal_id, OLD.proposal_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;